@@ -0,0 +1,85 @@
+/**
+ * Webhook middleware for Express
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  RECEIVED_BODY,
+  SIGNATURE_HEADER,
+  WebhookBodyTooLargeError,
+  readRawBody,
+  verifyWebhookRequest,
+} from './shared.js';
+import type { WebhookAdapterOptions } from './shared.js';
+
+/** Structural subset of an Express request */
+export interface ExpressLikeRequest extends IncomingMessage {
+  body?: unknown;
+}
+
+/** Structural subset of an Express response */
+export interface ExpressLikeResponse extends ServerResponse {
+  status(code: number): this;
+  json(body: unknown): this;
+}
+
+/**
+ * Create Express middleware that verifies webhooks and calls `options.handler`.
+ *
+ * Works with no body parser, or behind `express.raw()`. If a JSON parser ran
+ * first, the request is rejected with 400 because the raw body is gone.
+ * Bodies over `maxBodySize` get a 413. Handler errors are passed to `next`.
+ *
+ * @example
+ * ```typescript
+ * app.post('/webhooks', expressWebhookHandler({
+ *   secret: process.env.WEBHOOK_SECRET,
+ *   handler: async (event) => { ... },
+ * }));
+ * ```
+ */
+export function expressWebhookHandler<E extends boolean = false>(
+  options: WebhookAdapterOptions<ExpressLikeRequest, E>
+): (req: ExpressLikeRequest, res: ExpressLikeResponse, next: (error?: unknown) => void) => void {
+  return (req, res, next) => {
+    const run = async () => {
+      let rawBody: Buffer | string | undefined;
+      try {
+        rawBody = await getRawBody(req, options.maxBodySize);
+      } catch (error) {
+        if (error instanceof WebhookBodyTooLargeError) {
+          res.status(413).json(error.toBody());
+          return;
+        }
+        throw error;
+      }
+      const result = verifyWebhookRequest(rawBody, req.headers[SIGNATURE_HEADER], options);
+
+      if (!result.ok) {
+        res.status(result.status).json(result.body);
+        return;
+      }
+
+      await options.handler(result.event, req);
+      res.status(200).json(RECEIVED_BODY);
+    };
+
+    run().catch(next);
+  };
+}
+
+async function getRawBody(
+  req: ExpressLikeRequest,
+  maxBodySize?: number
+): Promise<Buffer | string | undefined> {
+  if (Buffer.isBuffer(req.body) || typeof req.body === 'string') {
+    return req.body;
+  }
+
+  // A body parser already consumed and parsed the stream
+  if (req.body !== undefined && req.readableEnded) {
+    return undefined;
+  }
+
+  return readRawBody(req, maxBodySize);
+}
@@ -0,0 +1,110 @@
+/**
+ * Webhook plugin for Fastify
+ */
+
+import {
+  DEFAULT_MAX_BODY_SIZE,
+  HANDLER_ERROR_BODY,
+  RECEIVED_BODY,
+  SIGNATURE_HEADER,
+  WebhookBodyTooLargeError,
+  handlerErrorReporter,
+  verifyWebhookRequest,
+} from './shared.js';
+import type { WebhookAdapterOptions, WebhookErrorReportingOptions } from './shared.js';
+
+/** Structural subset of a Fastify request */
+export interface FastifyLikeRequest {
+  body: unknown;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/** Structural subset of a Fastify reply */
+export interface FastifyLikeReply {
+  code(statusCode: number): this;
+  send(payload?: unknown): this;
+}
+
+/** Structural subset of a Fastify instance */
+export interface FastifyLikeInstance {
+  removeAllContentTypeParsers(): void;
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: 'string' | 'buffer'; bodyLimit?: number },
+    parser: (
+      req: unknown,
+      body: string | Buffer,
+      done: (error: Error | null, body?: unknown) => void
+    ) => void
+  ): void;
+  post(
+    path: string,
+    handler: (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown>
+  ): unknown;
+  setErrorHandler(
+    handler: (
+      error: Error & { code?: string },
+      request: FastifyLikeRequest,
+      reply: FastifyLikeReply
+    ) => unknown
+  ): unknown;
+}
+
+export interface FastifyWebhookOptions<E extends boolean = false>
+  extends
+    WebhookAdapterOptions<FastifyLikeRequest, E>,
+    WebhookErrorReportingOptions<FastifyLikeRequest> {
+  /** Route path to register (default: '/webhooks') */
+  path?: string;
+}
+
+/**
+ * Create a Fastify plugin that registers a webhook route.
+ *
+ * The plugin replaces body parsing and the error handler inside its own
+ * encapsulated context, so the route receives the raw body and other routes are
+ * unaffected. Bodies over `maxBodySize` get a 413, and handler errors a 500 that
+ * doesn't reveal them.
+ *
+ * @example
+ * ```typescript
+ * await app.register(fastifyWebhookPlugin({
+ *   path: '/webhooks',
+ *   secret: process.env.WEBHOOK_SECRET,
+ *   handler: async (event) => { ... },
+ * }));
+ * ```
+ */
+export function fastifyWebhookPlugin<E extends boolean = false>(
+  options: FastifyWebhookOptions<E>
+): (instance: FastifyLikeInstance) => Promise<void> {
+  const onError = handlerErrorReporter(options);
+
+  return async (instance) => {
+    instance.removeAllContentTypeParsers();
+    const bodyLimit = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    instance.addContentTypeParser('*', { parseAs: 'buffer', bodyLimit }, (_req, body, done) => {
+      done(null, body);
+    });
+
+    instance.setErrorHandler((error, request, reply) => {
+      if (error.code === 'FST_ERR_CTP_BODY_TOO_LARGE') {
+        return reply.code(413).send(new WebhookBodyTooLargeError(bodyLimit).toBody());
+      }
+      onError(error, request);
+      return reply.code(500).send(HANDLER_ERROR_BODY);
+    });
+
+    instance.post(options.path ?? '/webhooks', async (request, reply) => {
+      const rawBody = Buffer.isBuffer(request.body) ? request.body : undefined;
+      const result = verifyWebhookRequest(rawBody, request.headers[SIGNATURE_HEADER], options);
+
+      if (!result.ok) {
+        return reply.code(result.status).send(result.body);
+      }
+
+      await options.handler(result.event, request);
+      return reply.code(200).send(RECEIVED_BODY);
+    });
+  };
+}
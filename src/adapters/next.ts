@@ -0,0 +1,86 @@
+/**
+ * Webhook route handler for Next.js (App Router)
+ */
+
+import {
+  DEFAULT_MAX_BODY_SIZE,
+  RECEIVED_BODY,
+  SIGNATURE_HEADER,
+  WebhookBodyTooLargeError,
+  verifyWebhookRequest,
+} from './shared.js';
+import type { WebhookAdapterOptions } from './shared.js';
+
+/**
+ * Create a Next.js route handler that verifies webhooks and calls `options.handler`.
+ * Bodies over `maxBodySize` get a 413. Handler errors propagate so Next.js reports them.
+ *
+ * @example
+ * ```typescript
+ * // app/api/webhooks/route.ts
+ * export const POST = nextWebhookHandler({
+ *   secret: process.env.WEBHOOK_SECRET!,
+ *   handler: async (event) => { ... },
+ * });
+ * ```
+ */
+export function nextWebhookHandler<E extends boolean = false>(
+  options: WebhookAdapterOptions<Request, E>
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    let rawBody: string;
+    try {
+      rawBody = await readText(req, options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE);
+    } catch (error) {
+      if (error instanceof WebhookBodyTooLargeError) {
+        return jsonResponse(413, error.toBody());
+      }
+      throw error;
+    }
+    const result = verifyWebhookRequest(rawBody, req.headers.get(SIGNATURE_HEADER), options);
+
+    if (!result.ok) {
+      return jsonResponse(result.status, result.body);
+    }
+
+    await options.handler(result.event, req);
+    return jsonResponse(200, RECEIVED_BODY);
+  };
+}
+
+/**
+ * `req.text()` that stops reading once the body exceeds `maxBodySize` bytes.
+ */
+async function readText(req: Request, maxBodySize: number): Promise<string> {
+  if (Number(req.headers.get('content-length')) > maxBodySize) {
+    throw new WebhookBodyTooLargeError(maxBodySize);
+  }
+  if (!req.body) {
+    return '';
+  }
+
+  const decoder = new TextDecoder();
+  let text = '';
+  let size = 0;
+  const reader = req.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBodySize) {
+      await reader.cancel();
+      throw new WebhookBodyTooLargeError(maxBodySize);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
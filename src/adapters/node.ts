@@ -0,0 +1,66 @@
+/**
+ * Webhook handler for the bare Node.js `http` module
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  HANDLER_ERROR_BODY,
+  RECEIVED_BODY,
+  SIGNATURE_HEADER,
+  WebhookBodyTooLargeError,
+  handlerErrorReporter,
+  readRawBody,
+  verifyWebhookRequest,
+} from './shared.js';
+import type { WebhookAdapterOptions, WebhookErrorReportingOptions } from './shared.js';
+
+export interface NodeWebhookHandlerOptions<E extends boolean = false>
+  extends
+    WebhookAdapterOptions<IncomingMessage, E>,
+    WebhookErrorReportingOptions<IncomingMessage> {}
+
+/**
+ * Create a `(req, res)` listener that verifies webhooks and calls `options.handler`.
+ * Handler errors are answered with a 500 that doesn't reveal them.
+ *
+ * @example
+ * ```typescript
+ * http.createServer(nodeWebhookHandler({
+ *   secret: process.env.WEBHOOK_SECRET,
+ *   handler: async (event) => { ... },
+ * })).listen(3000);
+ * ```
+ */
+export function nodeWebhookHandler<E extends boolean = false>(
+  options: NodeWebhookHandlerOptions<E>
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const onError = handlerErrorReporter(options);
+
+  return async (req, res) => {
+    try {
+      const rawBody = await readRawBody(req, options.maxBodySize);
+      const result = verifyWebhookRequest(rawBody, req.headers[SIGNATURE_HEADER], options);
+
+      if (!result.ok) {
+        sendJSON(res, result.status, result.body);
+        return;
+      }
+
+      await options.handler(result.event, req);
+      sendJSON(res, 200, RECEIVED_BODY);
+    } catch (error) {
+      if (error instanceof WebhookBodyTooLargeError) {
+        sendJSON(res, 413, error.toBody());
+        return;
+      }
+      onError(error, req);
+      sendJSON(res, 500, HANDLER_ERROR_BODY);
+    }
+  };
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,164 @@
+/**
+ * Shared webhook adapter logic
+ */
+
+import type { IncomingMessage } from 'http';
+import { Webhooks, WebhookVerificationError } from '../resources/webhooks.js';
+import type { WebhookEvent } from '../resources/webhooks.js';
+import type { Amounts, ExactWebhookEvent } from '../types/index.js';
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+
+/** Largest webhook body adapters read by default, in bytes */
+export const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * `E` is the amount mode of `webhooks`: pass `client.webhooks` from a
+ * `cryptoAmounts: true` client and the handler receives `ExactWebhookEvent`s.
+ */
+export interface WebhookAdapterOptions<TContext = unknown, E extends boolean = false> {
+  /** Webhook secret from the PayCoinPro dashboard, or several during rotation */
+  secret: string | string[];
+  /** Max webhook age in seconds (default: 300) */
+  toleranceSeconds?: number;
+  /** Called with the verified event. Throwing lets the framework report a server error. */
+  handler: (event: Amounts<E, WebhookEvent, ExactWebhookEvent>, context: TContext) => unknown;
+  /** Verifier to use, e.g. `client.webhooks` (default: a new `Webhooks` instance) */
+  webhooks?: Webhooks<E>;
+  /** Largest accepted body in bytes; bigger requests get a 413 (default: 1 MiB) */
+  maxBodySize?: number;
+}
+
+/** For adapters that answer handler errors themselves instead of the framework */
+export interface WebhookErrorReportingOptions<TContext = unknown> {
+  /**
+   * Called with handler errors, which are answered with a generic 500
+   * (default: log them through the logger of `webhooks`, if given)
+   */
+  onError?: (error: unknown, context: TContext) => void;
+}
+
+export interface WebhookErrorBody {
+  error: string;
+  code:
+    | 'missing_signature'
+    | 'invalid_body'
+    | 'invalid_signature'
+    | 'body_too_large'
+    | 'handler_error';
+}
+
+export type WebhookVerifyResult<E extends boolean = false> =
+  | { ok: true; event: Amounts<E, WebhookEvent, ExactWebhookEvent> }
+  | { ok: false; status: 400 | 401; body: WebhookErrorBody };
+
+/** Thrown by `readRawBody` once a body exceeds its size limit */
+export class WebhookBodyTooLargeError extends Error {
+  constructor(readonly maxBodySize: number) {
+    super(`Webhook body exceeds ${maxBodySize} bytes`);
+    this.name = 'WebhookBodyTooLargeError';
+  }
+
+  /** Response body adapters send with the 413 */
+  toBody(): WebhookErrorBody {
+    return { error: this.message, code: 'body_too_large' };
+  }
+}
+
+export const RECEIVED_BODY = { received: true } as const;
+
+/** Response body for handler errors, which doesn't reveal them */
+export const HANDLER_ERROR_BODY: WebhookErrorBody = {
+  error: 'Webhook handler failed',
+  code: 'handler_error',
+};
+
+/**
+ * `options.onError`, defaulting to the `webhooks` logger. Without either,
+ * errors are dropped rather than written to the console.
+ */
+export function handlerErrorReporter<TContext, E extends boolean>(
+  options: WebhookErrorReportingOptions<TContext> &
+    Pick<WebhookAdapterOptions<TContext, E>, 'webhooks'>
+): (error: unknown, context: TContext) => void {
+  const logger = options.webhooks?.logger;
+  return options.onError ?? ((error) => logger?.error('Webhook handler failed', { error }));
+}
+
+/**
+ * Verify a raw webhook request and map failures to HTTP responses:
+ * 400 for a missing header or unusable body, 401 for failed verification.
+ */
+export function verifyWebhookRequest<E extends boolean = false>(
+  rawBody: string | Buffer | undefined,
+  signatureHeader: string | string[] | null | undefined,
+  options: Pick<WebhookAdapterOptions<unknown, E>, 'secret' | 'toleranceSeconds' | 'webhooks'>
+): WebhookVerifyResult<E> {
+  const signature = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader;
+
+  if (!signature) {
+    return failure(400, 'missing_signature', 'Missing X-Webhook-Signature header');
+  }
+
+  if (rawBody === undefined) {
+    return failure(
+      400,
+      'invalid_body',
+      'Raw request body unavailable. Mount the webhook handler before any JSON body parser.'
+    );
+  }
+
+  const body = typeof rawBody === 'string' ? rawBody : rawBody.toString('utf8');
+  // Without `webhooks`, nothing infers `E` and it stays `false`
+  const webhooks = options.webhooks ?? (new Webhooks() as Webhooks<E>);
+
+  try {
+    const event = webhooks.verify(body, signature, options.secret, options.toleranceSeconds);
+    return { ok: true, event };
+  } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      return failure(401, 'invalid_signature', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the full request body from a Node.js stream, before the signature can
+ * be checked, so its size is capped.
+ * Returns undefined if the stream was already consumed by another parser.
+ *
+ * @throws WebhookBodyTooLargeError if the body is larger than `maxBodySize` bytes
+ */
+export async function readRawBody(
+  req: IncomingMessage,
+  maxBodySize: number = DEFAULT_MAX_BODY_SIZE
+): Promise<Buffer | undefined> {
+  if (req.readableEnded) {
+    return undefined;
+  }
+
+  if (Number(req.headers['content-length']) > maxBodySize) {
+    throw new WebhookBodyTooLargeError(maxBodySize);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > maxBodySize) {
+      throw new WebhookBodyTooLargeError(maxBodySize);
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function failure(
+  status: 400 | 401,
+  code: WebhookErrorBody['code'],
+  message: string
+): WebhookVerifyResult<never> {
+  return { ok: false, status, body: { error: message, code } };
+}
@@ -0,0 +1,604 @@
+/**
+ * CLI commands
+ */
+
+import type { ParseArgsConfig } from 'util';
+import type { PayCoinPro } from '../client.js';
+import { Webhooks } from '../resources/webhooks.js';
+import type { WebhookEvent } from '../resources/webhooks.js';
+import {
+  WEBHOOK_EVENT_STATUSES,
+  WebhookForwarder,
+  exampleWebhookEvent,
+  parseWebhookPayloads,
+} from '../lib/webhook-forwarder.js';
+import type { WebhookDelivery, WebhookEventStatus } from '../lib/webhook-forwarder.js';
+import type {
+  Asset,
+  CreateDepositAddressRequest,
+  CreateInvoiceRequest,
+  Deposit,
+  DepositAddress,
+  Invoice,
+  Pagination,
+} from '../types/index.js';
+import { UsageError } from './errors.js';
+import { formatDetails, formatTable } from './output.js';
+import type { Column } from './output.js';
+
+type OptionValues = Record<string, string | boolean | string[] | undefined>;
+
+export interface CommandContext {
+  values: OptionValues;
+  positionals: string[];
+  /** Client for the resolved profile, created on first use */
+  client: () => PayCoinPro;
+  readFile: (path: string) => string;
+  fetch?: typeof fetch;
+}
+
+export interface CommandResult {
+  /** Printed with `--json` */
+  json: unknown;
+  /** Printed otherwise */
+  text: string;
+  /** Defaults to 0 */
+  exitCode?: number;
+}
+
+export interface Command {
+  /** Arguments after the command name, e.g. `<id>` */
+  args?: string[];
+  summary: string;
+  options: NonNullable<ParseArgsConfig['options']>;
+  /** Help text per option, keyed like `options` */
+  help: Record<string, string>;
+  run(context: CommandContext): Promise<CommandResult>;
+}
+
+const INVOICE_COLUMNS: Column<Invoice>[] = [
+  { header: 'ID', value: (invoice) => invoice.id },
+  { header: 'STATUS', value: (invoice) => invoice.status },
+  { header: 'AMOUNT', value: (invoice) => `${invoice.amount} ${invoice.currency}` },
+  {
+    header: 'CRYPTO',
+    value: (invoice) =>
+      invoice.amountCrypto === null ? null : `${invoice.amountCrypto} ${invoice.asset?.symbol}`,
+  },
+  { header: 'RECEIVED', value: (invoice) => invoice.amountReceived },
+  { header: 'ORDER', value: (invoice) => invoice.orderId },
+  { header: 'CREATED', value: (invoice) => invoice.createdAt },
+];
+
+const ADDRESS_COLUMNS: Column<DepositAddress>[] = [
+  { header: 'ID', value: (address) => address.id },
+  { header: 'ADDRESS', value: (address) => address.address },
+  { header: 'ASSET', value: (address) => address.asset.symbol },
+  { header: 'NETWORK', value: (address) => address.network.code },
+  { header: 'STATUS', value: (address) => address.status },
+  { header: 'USER', value: (address) => address.externalUserId },
+  { header: 'RECEIVED', value: (address) => address.totalReceived },
+  { header: 'CREATED', value: (address) => address.createdAt },
+];
+
+const DEPOSIT_COLUMNS: Column<Deposit>[] = [
+  { header: 'ID', value: (deposit) => deposit.id },
+  { header: 'STATUS', value: (deposit) => deposit.status },
+  { header: 'AMOUNT', value: (deposit) => `${deposit.amount} ${deposit.asset.symbol}` },
+  { header: 'NETWORK', value: (deposit) => deposit.network.code },
+  { header: 'CONFIRMATIONS', value: (deposit) => deposit.confirmations },
+  { header: 'TX', value: (deposit) => deposit.txHash },
+  { header: 'CREATED', value: (deposit) => deposit.createdAt },
+];
+
+const ASSET_COLUMNS: Column<Asset>[] = [
+  { header: 'SYMBOL', value: (asset) => asset.symbol },
+  { header: 'NAME', value: (asset) => asset.name },
+  {
+    header: 'NETWORKS',
+    value: (asset) => asset.networks.map((network) => network.code).join(', '),
+  },
+];
+
+const WEBHOOK_COLUMNS: Column<WebhookEvent>[] = [
+  { header: 'EVENT', value: (event) => event.event },
+  { header: 'STATUS', value: (event) => event.status },
+  {
+    header: 'REFERENCE',
+    value: (event) => (event.event === 'invoice' ? event.invoiceId : event.externalUserId),
+  },
+  {
+    header: 'AMOUNT',
+    value: (event) =>
+      `${event.event === 'invoice' ? event.amountReceived : event.amount} ${event.cryptoSymbol}`,
+  },
+];
+
+const DELIVERY_COLUMNS: Column<WebhookDelivery>[] = [
+  { header: 'EVENT', value: (delivery) => delivery.payload.event },
+  { header: 'STATUS', value: (delivery) => delivery.payload.status },
+  { header: 'RESPONSE', value: (delivery) => delivery.status },
+  { header: 'TIME', value: (delivery) => `${delivery.durationMs}ms` },
+  { header: 'BODY', value: (delivery) => delivery.responseBody.slice(0, 60) },
+];
+
+const ALL_OPTION = {
+  options: { all: { type: 'boolean' } },
+  help: { all: 'Fetch every page' },
+} as const;
+
+export const COMMANDS: Record<string, Command> = {
+  'invoices create': {
+    summary: 'Create an invoice',
+    options: {
+      amount: { type: 'string' },
+      currency: { type: 'string' },
+      asset: { type: 'string' },
+      network: { type: 'string' },
+      'order-id': { type: 'string' },
+      email: { type: 'string' },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      'expires-in': { type: 'string' },
+      tolerance: { type: 'string' },
+      'allowed-assets': { type: 'string' },
+      metadata: { type: 'string', multiple: true },
+      'callback-url': { type: 'string' },
+      'success-url': { type: 'string' },
+      'cancel-url': { type: 'string' },
+    },
+    help: {
+      amount: 'Amount in fiat (required)',
+      currency: 'Fiat currency (default: USD)',
+      asset: 'Asset symbol, e.g. usdt',
+      network: 'Network code, e.g. bsc (required with --asset)',
+      'order-id': 'Your order reference',
+      email: 'Customer email',
+      title: 'Title shown on the payment page',
+      description: 'Description shown on the payment page',
+      'expires-in': 'Minutes until expiry: 30, 60 or 120',
+      tolerance: 'Underpayment tolerance in percent (0.1-1)',
+      'allowed-assets': 'Comma-separated asset symbols the customer may pay with',
+      metadata: 'key=value pair, repeatable',
+      'callback-url': 'Webhook URL for this invoice',
+      'success-url': 'Redirect after payment',
+      'cancel-url': 'Redirect on cancel',
+    },
+    async run({ values, client }) {
+      const params: CreateInvoiceRequest = {
+        amount: requireNumber(values, 'amount'),
+        currency: stringOption(values, 'currency'),
+        asset: stringOption(values, 'asset'),
+        network: stringOption(values, 'network'),
+        orderId: stringOption(values, 'order-id'),
+        customerEmail: stringOption(values, 'email'),
+        title: stringOption(values, 'title'),
+        description: stringOption(values, 'description'),
+        expiresIn: numberOption(values, 'expires-in') as CreateInvoiceRequest['expiresIn'],
+        underpaymentTolerance: numberOption(values, 'tolerance'),
+        allowedAssets: stringOption(values, 'allowed-assets')?.split(','),
+        metadata: metadataOption(values),
+        callbackUrl: stringOption(values, 'callback-url'),
+        successUrl: stringOption(values, 'success-url'),
+        cancelUrl: stringOption(values, 'cancel-url'),
+      };
+      return details(await client().invoices.create(withoutUndefined(params)));
+    },
+  },
+
+  'invoices get': {
+    args: ['<id>'],
+    summary: 'Show an invoice',
+    options: {},
+    help: {},
+    async run({ positionals, client }) {
+      return details(await client().invoices.retrieve(positionals[0]));
+    },
+  },
+
+  'invoices list': {
+    summary: 'List invoices, newest first',
+    options: {
+      status: { type: 'string' },
+      limit: { type: 'string' },
+      offset: { type: 'string' },
+      ...ALL_OPTION.options,
+    },
+    help: {
+      status: 'Only invoices with this status, e.g. PAID',
+      limit: 'Page size (default: 20)',
+      offset: 'Number of invoices to skip',
+      ...ALL_OPTION.help,
+    },
+    async run({ values, client }) {
+      const params = withoutUndefined({
+        status: stringOption(values, 'status') as Invoice['status'] | undefined,
+        limit: numberOption(values, 'limit'),
+        offset: numberOption(values, 'offset'),
+      });
+      if (values.all) {
+        return table(await client().invoices.listAll(params).toArray(), INVOICE_COLUMNS);
+      }
+      const response = await client().invoices.list(params);
+      return offsetPage(response, response.invoices, INVOICE_COLUMNS);
+    },
+  },
+
+  'addresses create': {
+    summary: 'Create a deposit address',
+    options: {
+      asset: { type: 'string' },
+      network: { type: 'string' },
+      'external-user-id': { type: 'string' },
+      'expiry-days': { type: 'string' },
+    },
+    help: {
+      asset: 'Asset symbol, e.g. usdt (required)',
+      network: 'Network code, e.g. tron (required)',
+      'external-user-id': 'Your user reference',
+      'expiry-days': 'Days until the address expires (1-365)',
+    },
+    async run({ values, client }) {
+      const params: CreateDepositAddressRequest = {
+        asset: requireString(values, 'asset'),
+        network: requireString(values, 'network'),
+        externalUserId: stringOption(values, 'external-user-id'),
+        expiryDays: numberOption(values, 'expiry-days'),
+      };
+      return details(await client().depositAddresses.create(withoutUndefined(params)));
+    },
+  },
+
+  'addresses list': {
+    summary: 'List deposit addresses',
+    options: {
+      status: { type: 'string' },
+      'external-user-id': { type: 'string' },
+      limit: { type: 'string' },
+      offset: { type: 'string' },
+      ...ALL_OPTION.options,
+    },
+    help: {
+      status: 'ACTIVE, INACTIVE or SUSPENDED',
+      'external-user-id': 'Only addresses for this user',
+      limit: 'Page size (default: 20)',
+      offset: 'Number of addresses to skip',
+      ...ALL_OPTION.help,
+    },
+    async run({ values, client }) {
+      const params = withoutUndefined({
+        status: stringOption(values, 'status') as DepositAddress['status'] | undefined,
+        externalUserId: stringOption(values, 'external-user-id'),
+        limit: numberOption(values, 'limit'),
+        offset: numberOption(values, 'offset'),
+      });
+      if (values.all) {
+        return table(await client().depositAddresses.listAll(params).toArray(), ADDRESS_COLUMNS);
+      }
+      const response = await client().depositAddresses.list(params);
+      return offsetPage(response, response.addresses, ADDRESS_COLUMNS);
+    },
+  },
+
+  'deposits list': {
+    summary: 'List deposits to your deposit addresses',
+    options: {
+      status: { type: 'string' },
+      address: { type: 'string' },
+      limit: { type: 'string' },
+      offset: { type: 'string' },
+      ...ALL_OPTION.options,
+    },
+    help: {
+      status: 'PENDING, CONFIRMED, SWEPT or FAILED',
+      address: 'Only deposits to this deposit address id',
+      limit: 'Page size (default: 20)',
+      offset: 'Number of deposits to skip',
+      ...ALL_OPTION.help,
+    },
+    async run({ values, client }) {
+      const params = withoutUndefined({
+        status: stringOption(values, 'status') as Deposit['status'] | undefined,
+        depositAddressId: stringOption(values, 'address'),
+        limit: numberOption(values, 'limit'),
+        offset: numberOption(values, 'offset'),
+      });
+      if (values.all) {
+        return table(await client().deposits.listAll(params).toArray(), DEPOSIT_COLUMNS);
+      }
+      const response = await client().deposits.list(params);
+      const next = (params.offset ?? 0) + response.deposits.length;
+      const footer = response.pagination.hasMore
+        ? `\nMore results: --offset ${next}, or --all.`
+        : '';
+      return {
+        json: response,
+        text: formatTable(response.deposits, DEPOSIT_COLUMNS) + footer,
+      };
+    },
+  },
+
+  'assets list': {
+    summary: 'List supported assets and networks',
+    options: {},
+    help: {},
+    async run({ client }) {
+      const { assets } = await client().assets.list();
+      return table(assets, ASSET_COLUMNS);
+    },
+  },
+
+  'webhooks sign': {
+    summary: 'Sign a payload, e.g. to replay it against your endpoint',
+    options: {
+      secret: { type: 'string', multiple: true },
+      'body-file': { type: 'string' },
+      body: { type: 'string' },
+      timestamp: { type: 'string' },
+    },
+    help: {
+      secret: 'Webhook secret (required, repeatable)',
+      'body-file': 'File with the exact body to sign',
+      body: 'Body to sign, instead of --body-file',
+      timestamp: 'Unix timestamp in seconds (default: now)',
+    },
+    async run({ values, readFile }) {
+      const body = bodyOption(values, readFile);
+      const header = new Webhooks().sign(
+        body,
+        requireSecrets(values),
+        numberOption(values, 'timestamp')
+      );
+      return { json: { header, body }, text: header };
+    },
+  },
+
+  'webhooks verify': {
+    summary: 'Verify a delivery from its signature header and raw body',
+    options: {
+      secret: { type: 'string', multiple: true },
+      header: { type: 'string' },
+      'body-file': { type: 'string' },
+      body: { type: 'string' },
+      tolerance: { type: 'string' },
+    },
+    help: {
+      secret: 'Webhook secret (required, repeatable while rotating)',
+      header: 'X-Webhook-Signature header value (required)',
+      'body-file': 'File with the exact raw body',
+      body: 'Raw body, instead of --body-file',
+      tolerance: 'Max age in seconds (default: 300). Raise it to check old deliveries.',
+    },
+    async run({ values, readFile }) {
+      const verified = new Webhooks().verifyDetailed(
+        bodyOption(values, readFile),
+        requireString(values, 'header'),
+        requireSecrets(values),
+        numberOption(values, 'tolerance')
+      );
+      return {
+        json: verified,
+        text: `Signature valid (secret #${verified.secretIndex + 1}, signed at ${new Date(
+          verified.timestamp * 1000
+        ).toISOString()})\n\n${formatDetails(verified.event)}`,
+      };
+    },
+  },
+
+  'webhooks examples': {
+    summary: 'Print example webhook payloads from the API schema',
+    options: {
+      status: { type: 'string', multiple: true },
+    },
+    help: {
+      status: `Only this status, repeatable: ${WEBHOOK_EVENT_STATUSES.join(', ')}`,
+    },
+    async run({ values }) {
+      const statuses = statusesOption(values) ?? [...WEBHOOK_EVENT_STATUSES];
+      return table(
+        statuses.map((status) => exampleWebhookEvent(status)),
+        WEBHOOK_COLUMNS
+      );
+    },
+  },
+
+  'webhooks replay': {
+    summary: 'Re-sign stored payloads with a fresh timestamp and POST them to a handler',
+    options: {
+      url: { type: 'string' },
+      secret: { type: 'string', multiple: true },
+      file: { type: 'string', multiple: true },
+      delay: { type: 'string' },
+    },
+    help: {
+      url: 'Webhook handler URL, e.g. http://localhost:3000/webhooks (required)',
+      secret: 'Webhook secret the handler verifies with (required, repeatable)',
+      file: 'JSON file with a payload or an array of payloads (required, repeatable)',
+      delay: 'Milliseconds to wait between deliveries (default: 0)',
+    },
+    async run({ values, readFile, fetch }) {
+      const files = values.file;
+      if (!Array.isArray(files) || files.length === 0) {
+        throw new UsageError('--file is required');
+      }
+      const payloads = files.flatMap((path) => {
+        try {
+          return parseWebhookPayloads(readFile(path));
+        } catch (error) {
+          throw new UsageError(`${path}: ${(error as Error).message}`);
+        }
+      });
+      return forward(values, payloads, fetch);
+    },
+  },
+
+  'webhooks sequence': {
+    summary: 'POST example events to a handler in order, e.g. to test out-of-order delivery',
+    options: {
+      url: { type: 'string' },
+      secret: { type: 'string', multiple: true },
+      status: { type: 'string', multiple: true },
+      delay: { type: 'string' },
+      'invoice-id': { type: 'string' },
+      'order-id': { type: 'string' },
+    },
+    help: {
+      url: 'Webhook handler URL, e.g. http://localhost:3000/webhooks (required)',
+      secret: 'Webhook secret the handler verifies with (required, repeatable)',
+      status: 'Status of the next event, repeatable, e.g. --status PARTIAL --status PAID',
+      delay: 'Milliseconds to wait between deliveries (default: 0)',
+      'invoice-id': 'invoiceId for the invoice events',
+      'order-id': 'orderId for the invoice events',
+    },
+    async run({ values, fetch }) {
+      const statuses = statusesOption(values);
+      if (!statuses) {
+        throw new UsageError('--status is required');
+      }
+      const invoice = withoutUndefined({
+        invoiceId: stringOption(values, 'invoice-id'),
+        orderId: stringOption(values, 'order-id'),
+      });
+      const payloads = statuses.map((status) =>
+        status === 'CONFIRMED' ? exampleWebhookEvent(status) : exampleWebhookEvent(status, invoice)
+      );
+      return forward(values, payloads, fetch);
+    },
+  },
+};
+
+function details(value: object): CommandResult {
+  return { json: value, text: formatDetails(value) };
+}
+
+function table<T>(rows: T[], columns: Column<T>[]): CommandResult {
+  return { json: rows, text: formatTable(rows, columns) };
+}
+
+function offsetPage<T>(
+  response: { pagination: Pagination },
+  rows: T[],
+  columns: Column<T>[]
+): CommandResult {
+  const { total, offset, hasMore } = response.pagination;
+  const footer = hasMore
+    ? `\nShowing ${offset + 1}-${offset + rows.length} of ${total}. More results: --offset ${
+        offset + rows.length
+      }, or --all.`
+    : '';
+  return { json: response, text: formatTable(rows, columns) + footer };
+}
+
+async function forward(
+  values: OptionValues,
+  payloads: Array<WebhookEvent | string>,
+  fetch: typeof globalThis.fetch | undefined
+): Promise<CommandResult> {
+  const forwarder = new WebhookForwarder({
+    url: requireString(values, 'url'),
+    secret: requireSecrets(values),
+    fetch,
+  });
+  const deliveries = await forwarder.sendSequence(payloads, {
+    delayMs: numberOption(values, 'delay'),
+  });
+  const failed = deliveries.filter((delivery) => delivery.status < 200 || delivery.status > 299);
+  return {
+    json: deliveries,
+    text: formatTable(deliveries, DELIVERY_COLUMNS),
+    exitCode: failed.length > 0 ? 1 : 0,
+  };
+}
+
+function statusesOption(values: OptionValues): WebhookEventStatus[] | undefined {
+  const statuses = values.status;
+  if (!Array.isArray(statuses)) {
+    return undefined;
+  }
+  return statuses.map((status) => {
+    const normalized = status.toUpperCase() as WebhookEventStatus;
+    if (!WEBHOOK_EVENT_STATUSES.includes(normalized)) {
+      throw new UsageError(
+        `--status must be one of ${WEBHOOK_EVENT_STATUSES.join(', ')}, got "${status}"`
+      );
+    }
+    return normalized;
+  });
+}
+
+function stringOption(values: OptionValues, name: string): string | undefined {
+  const value = values[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function requireString(values: OptionValues, name: string): string {
+  const value = stringOption(values, name);
+  if (!value) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return value;
+}
+
+function numberOption(values: OptionValues, name: string): number | undefined {
+  const value = stringOption(values, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new UsageError(`--${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+function requireNumber(values: OptionValues, name: string): number {
+  requireString(values, name);
+  return numberOption(values, name) as number;
+}
+
+function requireSecrets(values: OptionValues): string[] {
+  const secrets = values.secret;
+  if (!Array.isArray(secrets) || secrets.length === 0) {
+    throw new UsageError('--secret is required');
+  }
+  return secrets;
+}
+
+function bodyOption(values: OptionValues, readFile: (path: string) => string): string {
+  const path = stringOption(values, 'body-file');
+  const body = stringOption(values, 'body');
+  if (path !== undefined && body !== undefined) {
+    throw new UsageError('Use either --body-file or --body, not both');
+  }
+  if (path !== undefined) {
+    return readFile(path);
+  }
+  if (body === undefined) {
+    throw new UsageError('--body-file or --body is required');
+  }
+  return body;
+}
+
+function metadataOption(values: OptionValues): Record<string, string> | undefined {
+  const pairs = values.metadata;
+  if (!Array.isArray(pairs)) {
+    return undefined;
+  }
+
+  const metadata: Record<string, string> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new UsageError(`--metadata must be key=value, got "${pair}"`);
+    }
+    metadata[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+  return metadata;
+}
+
+/**
+ * Drop unset options so they aren't sent as explicit `undefined`s.
+ */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+}
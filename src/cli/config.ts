@@ -0,0 +1,84 @@
+/**
+ * CLI credentials: environment variables and profile files
+ */
+
+import { join } from 'path';
+import { UsageError } from './errors.js';
+
+export interface Profile {
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export interface ResolveProfileOptions {
+  env: Record<string, string | undefined>;
+  homedir: string;
+  /** Reads the profile file; a missing file is an error with code `ENOENT` */
+  readFile: (path: string) => string;
+  /** Profile named with `--profile` */
+  profile?: string;
+}
+
+/**
+ * Location of the profile file: `$PAYCOINPRO_CONFIG`, or `~/.paycoinpro/config.json`.
+ */
+export function configPath(env: Record<string, string | undefined>, homedir: string): string {
+  return env.PAYCOINPRO_CONFIG ?? join(homedir, '.paycoinpro', 'config.json');
+}
+
+/**
+ * Resolve the API key and base URL.
+ *
+ * An explicit `--profile` wins, then `PAYCOINPRO_API_KEY` / `PAYCOINPRO_BASE_URL`,
+ * then the profile named by `PAYCOINPRO_PROFILE` (default: `default`).
+ *
+ * The profile file maps names to profiles:
+ * `{ "default": { "apiKey": "pk_live_..." }, "staging": { "apiKey": "...", "baseURL": "..." } }`
+ *
+ * @throws UsageError if no API key is configured or the named profile doesn't exist
+ */
+export function resolveProfile(
+  options: ResolveProfileOptions
+): Required<Pick<Profile, 'apiKey'>> & Profile {
+  const { env, homedir, readFile, profile } = options;
+  const path = configPath(env, homedir);
+
+  if (!profile && env.PAYCOINPRO_API_KEY) {
+    return { apiKey: env.PAYCOINPRO_API_KEY, baseURL: env.PAYCOINPRO_BASE_URL };
+  }
+
+  const name = profile ?? env.PAYCOINPRO_PROFILE ?? 'default';
+  const profiles = readProfiles(path, readFile);
+  const selected = profiles[name];
+
+  if (!selected && (profile || env.PAYCOINPRO_PROFILE)) {
+    throw new UsageError(`Profile "${name}" not found in ${path}`);
+  }
+  if (!selected?.apiKey) {
+    throw new UsageError(
+      `No API key configured. Set PAYCOINPRO_API_KEY or add a "${name}" profile to ${path}`
+    );
+  }
+
+  return { apiKey: selected.apiKey, baseURL: selected.baseURL ?? env.PAYCOINPRO_BASE_URL };
+}
+
+function readProfiles(
+  path: string,
+  readFile: (path: string) => string
+): Record<string, Profile | undefined> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFile(path));
+  } catch (error) {
+    if ((error as Error & { code?: string }).code === 'ENOENT') {
+      return {};
+    }
+    throw new UsageError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new UsageError(`${path} must contain an object of profiles`);
+  }
+  return parsed as Record<string, Profile | undefined>;
+}
@@ -0,0 +1,13 @@
+/**
+ * CLI errors
+ */
+
+/**
+ * Invalid command line or configuration. Printed with a usage hint and exit code 2.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * `paycoinpro` command-line tool
+ */
+
+import { run } from './run.js';
+
+run(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
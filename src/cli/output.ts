@@ -0,0 +1,77 @@
+/**
+ * CLI output formatting
+ */
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+/**
+ * Render `rows` as an aligned plain-text table.
+ */
+export function formatTable<T>(rows: readonly T[], columns: readonly Column<T>[]): string {
+  if (rows.length === 0) {
+    return 'No results.';
+  }
+
+  const cells = rows.map((row) => columns.map((column) => cell(column.value(row))));
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map((line) => line[index].length))
+  );
+  const render = (line: string[]) =>
+    line
+      .map((value, index) => value.padEnd(widths[index]))
+      .join('  ')
+      .trimEnd();
+
+  return [render(columns.map((column) => column.header)), ...cells.map(render)].join('\n');
+}
+
+/**
+ * Render one object as `key  value` lines, with nested fields flattened to
+ * dotted keys, e.g. `asset.symbol`.
+ */
+export function formatDetails(value: object): string {
+  const entries = flatten(value, '');
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...entries.map(([key]) => key.length));
+  return entries.map(([key, item]) => `${key.padEnd(width)}  ${item}`.trimEnd()).join('\n');
+}
+
+export function formatJSON(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+function flatten(value: object, prefix: string): Array<[string, string]> {
+  const entries: Array<[string, string]> = [];
+
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (Array.isArray(item)) {
+      if (item.length === 0) {
+        entries.push([path, '-']);
+      } else if (item.every((element) => typeof element !== 'object')) {
+        entries.push([path, item.join(', ')]);
+      } else {
+        item.forEach((element, index) => entries.push(...flatten(element, `${path}.${index}`)));
+      }
+    } else if (item !== null && typeof item === 'object') {
+      entries.push(...flatten(item, path));
+    } else {
+      entries.push([path, cell(item)]);
+    }
+  }
+
+  return entries;
+}
+
+function cell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '-';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
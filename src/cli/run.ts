@@ -0,0 +1,186 @@
+/**
+ * CLI entry point, separate from the bin script so it can be tested in-process
+ */
+
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { parseArgs } from 'util';
+import { PayCoinPro } from '../client.js';
+import { APIError } from '../lib/errors.js';
+import { VERSION } from '../version.js';
+import { COMMANDS } from './commands.js';
+import type { Command } from './commands.js';
+import { resolveProfile } from './config.js';
+import { UsageError } from './errors.js';
+import { formatJSON } from './output.js';
+
+export interface CLIEnvironment {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: Record<string, string | undefined>;
+  homedir: string;
+  readFile: (path: string) => string;
+  /** Passed to the client, e.g. to point tests at a mock */
+  fetch?: typeof fetch;
+}
+
+const GLOBAL_OPTIONS = {
+  json: { type: 'boolean' },
+  profile: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+const GLOBAL_HELP: Record<keyof typeof GLOBAL_OPTIONS, string> = {
+  json: 'Print JSON instead of a table',
+  profile: 'Profile from the config file to use',
+  help: 'Show help',
+};
+
+/**
+ * Run `paycoinpro <resource> <action> [options]`.
+ *
+ * @returns Exit code: 0 on success, 1 when a request, verification or webhook delivery
+ *   fails, 2 on usage errors
+ */
+export async function run(
+  argv: string[],
+  environment: Partial<CLIEnvironment> = {}
+): Promise<number> {
+  const io: CLIEnvironment = {
+    stdout: (text) => process.stdout.write(`${text}\n`),
+    stderr: (text) => process.stderr.write(`${text}\n`),
+    env: process.env,
+    homedir: homedir(),
+    readFile: (path) => readFileSync(path, 'utf8'),
+    ...environment,
+  };
+
+  const [resource, action, ...rest] = argv;
+  if (resource === undefined || resource === 'help' || resource === '--help' || resource === '-h') {
+    io.stdout(usage());
+    return 0;
+  }
+  if (resource === '--version' || resource === '-v') {
+    io.stdout(VERSION);
+    return 0;
+  }
+
+  const name = `${resource} ${action ?? ''}`.trim();
+  const command = COMMANDS[name];
+  if (!command) {
+    io.stderr(`error: Unknown command "${name}"\n\n${usage()}`);
+    return 2;
+  }
+
+  try {
+    const { values, positionals } = parseCommandLine(command, rest);
+    if (values.help) {
+      io.stdout(commandHelp(name, command));
+      return 0;
+    }
+
+    let client: PayCoinPro | undefined;
+    const result = await command.run({
+      values,
+      positionals,
+      readFile: io.readFile,
+      fetch: io.fetch,
+      client: () => {
+        if (!client) {
+          const { apiKey, baseURL } = resolveProfile({
+            env: io.env,
+            homedir: io.homedir,
+            readFile: io.readFile,
+            profile: typeof values.profile === 'string' ? values.profile : undefined,
+          });
+          client = new PayCoinPro({
+            apiKey,
+            baseURL,
+            fetch: io.fetch,
+            appInfo: { name: 'paycoinpro-cli', version: VERSION },
+          });
+        }
+        return client;
+      },
+    });
+
+    io.stdout(values.json ? formatJSON(result.json) : result.text);
+    return result.exitCode ?? 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`error: ${error.message}\nRun "paycoinpro ${name} --help" for usage.`);
+      return 2;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const requestId = error instanceof APIError ? error.requestId : undefined;
+    io.stderr(`error: ${message}${requestId ? ` (request ${requestId})` : ''}`);
+    return 1;
+  }
+}
+
+function parseCommandLine(command: Command, args: string[]) {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    // parseArgs throws TypeErrors for unknown options and missing values
+    throw new UsageError((error as Error).message);
+  }
+
+  const expected = command.args ?? [];
+  if (parsed.positionals.length !== expected.length) {
+    throw new UsageError(
+      expected.length === 0
+        ? `Unexpected argument "${parsed.positionals[0]}"`
+        : `Expected ${expected.join(' ')}`
+    );
+  }
+  return parsed;
+}
+
+function usage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length + 1));
+  const commands = Object.entries(COMMANDS).map(
+    ([name, command]) =>
+      `  ${`${name} ${(command.args ?? []).join(' ')}`.padEnd(width + 6)}${command.summary}`
+  );
+
+  return [
+    'Usage: paycoinpro <resource> <action> [options]',
+    '',
+    'Commands:',
+    ...commands,
+    '',
+    'Options:',
+    ...formatOptions(GLOBAL_OPTIONS, GLOBAL_HELP),
+    '',
+    'The API key is read from PAYCOINPRO_API_KEY, or from a profile in',
+    '~/.paycoinpro/config.json (override the path with PAYCOINPRO_CONFIG):',
+    '',
+    '  { "default": { "apiKey": "pk_live_..." }, "staging": { "apiKey": "...", "baseURL": "..." } }',
+  ].join('\n');
+}
+
+function commandHelp(name: string, command: Command): string {
+  return [
+    `Usage: paycoinpro ${name} ${[...(command.args ?? []), '[options]'].join(' ')}`,
+    '',
+    command.summary,
+    '',
+    'Options:',
+    ...formatOptions(command.options, command.help),
+    ...formatOptions(GLOBAL_OPTIONS, GLOBAL_HELP),
+  ].join('\n');
+}
+
+function formatOptions(options: Command['options'], help: Record<string, string>): string[] {
+  return Object.entries(options).map(([option, config]) => {
+    const flag = `--${option}${config.type === 'string' ? ' <value>' : ''}`;
+    return `  ${flag.padEnd(26)}${help[option] ?? ''}`;
+  });
+}
@@ -2,8 +2,11 @@
  * PayCoinPro Client
  */
 
-import type { PayCoinProOptions } from './types/index.js';
+import type { APIRequestOptions, PayCoinProOptions } from './types/index.js';
 import { APIClient } from './lib/api.js';
+import type { HTTPMethod } from './lib/api.js';
+import type { APIPromise } from './lib/api-promise.js';
+import { AssetCatalog } from './lib/asset-catalog.js';
 import { Invoices } from './resources/invoices.js';
 import { DepositAddresses } from './resources/deposit-addresses.js';
 import { Deposits } from './resources/deposits.js';
@@ -13,20 +16,51 @@ import { Webhooks } from './resources/webhooks.js';
 /**
  * PayCoinPro SDK Client
  */
-export class PayCoinPro {
-  readonly invoices: Invoices;
-  readonly depositAddresses: DepositAddresses;
-  readonly deposits: Deposits;
+export class PayCoinPro<E extends boolean = false> {
+  readonly invoices: Invoices<E>;
+  readonly depositAddresses: DepositAddresses<E>;
+  readonly deposits: Deposits<E>;
   readonly assets: Assets;
-  readonly webhooks: Webhooks;
+  /** Cached asset lookups, shared with create-time asset validation */
+  readonly assetCatalog: AssetCatalog;
+  readonly webhooks: Webhooks<E>;
+  private readonly client: APIClient;
 
-  constructor(options: PayCoinProOptions) {
+  constructor(options: PayCoinProOptions & { cryptoAmounts?: E }) {
     const client = new APIClient(options);
-    this.invoices = new Invoices(client);
-    this.depositAddresses = new DepositAddresses(client);
-    this.deposits = new Deposits(client);
+    this.client = client;
+    const cryptoAmounts = options.cryptoAmounts ?? false;
     this.assets = new Assets(client);
-    this.webhooks = new Webhooks();
+    this.assetCatalog = new AssetCatalog(this.assets, { ttlMs: options.assetCatalogTtlMs });
+    const catalog = options.validateAssets ? this.assetCatalog : undefined;
+    this.invoices = new Invoices(client, cryptoAmounts, catalog);
+    this.depositAddresses = new DepositAddresses(client, cryptoAmounts, catalog);
+    this.deposits = new Deposits(client, cryptoAmounts);
+    this.webhooks = new Webhooks({
+      cryptoAmounts,
+      validatePayloads: options.validateResponses,
+      tracing: options.tracing,
+      logger: client.logger,
+    });
+  }
+
+  /**
+   * Call an endpoint the SDK doesn't wrap yet. `path` is relative to `baseURL`.
+   * Retries, hooks, logging and tracing apply as for resource methods.
+   *
+   * @example
+   * ```typescript
+   * const { data, response } = await client
+   *   .request<Record<string, unknown>>('GET', '/balances', { query: { asset: 'USDT' } })
+   *   .withResponse();
+   * ```
+   */
+  request<T = unknown>(
+    method: HTTPMethod,
+    path: string,
+    options?: APIRequestOptions
+  ): APIPromise<T> {
+    return this.client.request<T>(method, path, options);
   }
 }
 
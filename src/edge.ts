@@ -0,0 +1,148 @@
+/**
+ * PayCoinPro webhook verification for edge runtimes
+ *
+ * Uses Web Crypto (`crypto.subtle`) instead of Node's `crypto`, for
+ * Cloudflare Workers, Vercel Edge, Deno and browsers.
+ *
+ * @example
+ * ```typescript
+ * import { verifyAsync } from 'paycoinpro/edge';
+ *
+ * export default {
+ *   async fetch(request: Request, env: Env) {
+ *     const event = await verifyAsync(
+ *       await request.text(),
+ *       request.headers.get('X-Webhook-Signature') ?? '',
+ *       env.WEBHOOK_SECRET
+ *     );
+ *     return new Response('OK');
+ *   },
+ * };
+ * ```
+ */
+
+import {
+  WebhookVerificationError,
+  formatSignatureHeader,
+  parseWebhookEvent,
+  prepareSignatureCheck,
+} from './lib/webhook-signature.js';
+import type { VerifiedWebhook, WebhookEvent } from './lib/webhook-signature.js';
+
+export { WebhookVerificationError };
+export type { VerifiedWebhook, WebhookEvent };
+export type { InvoiceWebhookPayload, DepositWebhookPayload } from './types/index.js';
+
+const encoder = new TextEncoder();
+
+/**
+ * Verify webhook signature and parse event. Same checks as `Webhooks.verify`.
+ *
+ * @param rawBody - Raw request body as STRING (not parsed JSON object)
+ * @param signatureHeader - Value of X-Webhook-Signature header
+ * @param secret - Your webhook secret from PayCoinPro dashboard, or several during rotation
+ * @param toleranceSeconds - Max webhook age in seconds (default: 300)
+ * @throws WebhookVerificationError if verification fails
+ */
+export async function verifyAsync(
+  rawBody: string,
+  signatureHeader: string,
+  secret: string | string[],
+  toleranceSeconds?: number
+): Promise<WebhookEvent> {
+  const verified = await verifyDetailedAsync(rawBody, signatureHeader, secret, toleranceSeconds);
+  return verified.event;
+}
+
+/**
+ * Verify like `verifyAsync`, and also report which secret matched.
+ */
+export async function verifyDetailedAsync(
+  rawBody: string,
+  signatureHeader: string,
+  secret: string | string[],
+  toleranceSeconds?: number
+): Promise<VerifiedWebhook> {
+  const { timestamp, signatures, secrets, signedPayload } = prepareSignatureCheck(
+    rawBody,
+    signatureHeader,
+    secret,
+    toleranceSeconds
+  );
+
+  for (let secretIndex = 0; secretIndex < secrets.length; secretIndex++) {
+    const expected = await hmacSHA256(secrets[secretIndex], signedPayload);
+    if (signatures.some((signature) => constantTimeEqual(hexToBytes(signature), expected))) {
+      return { event: parseWebhookEvent(rawBody), timestamp, secretIndex };
+    }
+  }
+
+  throw new WebhookVerificationError('Invalid webhook signature');
+}
+
+/**
+ * Generate signature for testing purposes. Same output as `Webhooks.sign`.
+ *
+ * @returns Signature header value (t={timestamp},v1={signature})
+ */
+export async function signAsync(
+  payload: object,
+  secret: string | string[],
+  timestamp?: number
+): Promise<string> {
+  const ts = timestamp ?? Math.floor(Date.now() / 1000);
+  const signedPayload = `${ts}.${JSON.stringify(payload)}`;
+  const signatures = await Promise.all(
+    (Array.isArray(secret) ? secret : [secret]).map(async (s) =>
+      bytesToHex(await hmacSHA256(s, signedPayload))
+    )
+  );
+  return formatSignatureHeader(ts, signatures);
+}
+
+async function hmacSHA256(secret: string, message: string): Promise<Uint8Array> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new WebhookVerificationError('Web Crypto API (crypto.subtle) is not available');
+  }
+
+  const key = await subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+/**
+ * Compare without early exit, so timing does not leak the matching prefix length.
+ */
+function constantTimeEqual(a: Uint8Array | undefined, b: Uint8Array): boolean {
+  if (!a || a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+function hexToBytes(hex: string): Uint8Array | undefined {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return undefined;
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -8,7 +8,38 @@
 export { PayCoinPro, PayCoinPro as default } from './client.js';
 
 // SDK Configuration
-export type { PayCoinProOptions, RequestOptions } from './types/index.js';
+export type {
+  PayCoinProOptions,
+  RequestOptions,
+  APIRequestOptions,
+  AppInfo,
+} from './types/index.js';
+export { VERSION } from './version.js';
+
+// Retries
+export type { RetryPolicy, RetryContext } from './lib/retry.js';
+
+// Logging
+export type { Logger, LogLevel, LogFields } from './lib/logger.js';
+
+// Hooks
+export type {
+  RequestHooks,
+  RequestHookContext,
+  ResponseHookContext,
+  ErrorHookContext,
+} from './lib/hooks.js';
+
+// Pagination
+export { Paginator } from './lib/pagination.js';
+export type { ToArrayOptions } from './lib/pagination.js';
+
+// Asset catalog
+export { AssetCatalog } from './lib/asset-catalog.js';
+export type { AssetCatalogOptions } from './lib/asset-catalog.js';
+
+// Polling
+export type { WaitForStatusOptions } from './resources/invoices.js';
 
 // API Types (auto-generated from OpenAPI)
 export type {
@@ -22,6 +53,7 @@ export type {
   CreateInvoiceRequest,
   InvoiceListResponse,
   InvoiceStatus,
+  Transaction,
   // Deposit Addresses
   DepositAddress,
   DepositAddressCreated,
@@ -41,19 +73,91 @@ export type {
   // Common
   Pagination,
   ErrorResponse,
+  // Exact amounts
+  Amounts,
+  ExactTransaction,
+  ExactInvoice,
+  ExactInvoiceListResponse,
+  ExactDepositAddress,
+  ExactDepositAddressCreated,
+  ExactDepositAddressListResponse,
+  ExactDeposit,
+  ExactDepositListResponse,
+  ExactInvoiceWebhookPayload,
+  ExactDepositWebhookPayload,
+  ExactWebhookEvent,
 } from './types/index.js';
 
+// Crypto amounts
+export {
+  CryptoAmount,
+  toExactInvoice,
+  toExactDepositAddress,
+  toExactDeposit,
+  toExactWebhookEvent,
+} from './lib/money.js';
+export type { FormatAmountOptions } from './lib/money.js';
+
 // Errors
 export {
   PayCoinProError,
   APIError,
   BadRequestError,
   AuthenticationError,
+  PermissionDeniedError,
   NotFoundError,
+  ConflictError,
+  UnprocessableEntityError,
   RateLimitError,
+  InternalServerError,
   TimeoutError,
   ConnectionError,
+  RequestAbortedError,
+  InvoiceTerminalStatusError,
+  InvoiceExpiredError,
+  WaitTimeoutError,
+  ResponseValidationError,
+  ValidationError,
 } from './lib/errors.js';
+export type { APIErrorResponse } from './lib/errors.js';
+export { APIPromise } from './lib/api-promise.js';
+export type { WithResponse } from './lib/api-promise.js';
+export type { HTTPMethod } from './lib/api.js';
+export type { ValidationMode, ValidationIssue } from './lib/validation.js';
+
+export { WebhookVerificationError, WebhookDuplicateError } from './resources/webhooks.js';
+export type {
+  WebhookEvent,
+  VerifiedWebhook,
+  VerifiedUniqueWebhook,
+  VerifyOnceOptions,
+} from './resources/webhooks.js';
+export { MemoryDedupStore, FileDedupStore, webhookDedupKey } from './lib/webhook-dedup.js';
+export type {
+  WebhookDedupStore,
+  MemoryDedupStoreOptions,
+  FileDedupStoreOptions,
+} from './lib/webhook-dedup.js';
+export { WebhookRouter } from './lib/webhook-router.js';
+export type { WebhookEventType, WebhookEventFor, WebhookHandler } from './lib/webhook-router.js';
 
-export { WebhookVerificationError } from './resources/webhooks.js';
-export type { WebhookEvent } from './resources/webhooks.js';
+// Webhook framework adapters
+export { expressWebhookHandler } from './adapters/express.js';
+export type { ExpressLikeRequest, ExpressLikeResponse } from './adapters/express.js';
+export { fastifyWebhookPlugin } from './adapters/fastify.js';
+export type { FastifyWebhookOptions } from './adapters/fastify.js';
+export { nextWebhookHandler } from './adapters/next.js';
+export { nodeWebhookHandler } from './adapters/node.js';
+export type { NodeWebhookHandlerOptions } from './adapters/node.js';
+export {
+  DEFAULT_MAX_BODY_SIZE,
+  WebhookBodyTooLargeError,
+  readRawBody,
+  verifyWebhookRequest,
+} from './adapters/shared.js';
+export type {
+  WebhookAdapterOptions,
+  WebhookErrorReportingOptions,
+  WebhookErrorBody,
+  WebhookVerifyResult,
+} from './adapters/shared.js';
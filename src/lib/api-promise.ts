@@ -0,0 +1,81 @@
+/**
+ * PayCoinPro API Promise
+ */
+
+/** Parsed body together with the HTTP response it came from */
+export interface WithResponse<T> {
+  data: T;
+  /** Response of the final attempt; its body has already been read */
+  response: Response;
+  /** `X-Request-Id` response header; include it when contacting support */
+  requestId: string | undefined;
+  /** Time from sending the final attempt to reading its body, in ms */
+  durationMs: number;
+}
+
+/**
+ * Returned by every API call. Awaiting it gives the parsed body as before;
+ * `withResponse()` also gives the status, headers and timing.
+ *
+ * @example
+ * ```typescript
+ * const { data: invoice, response, requestId } = await client.invoices
+ *   .retrieve('inv_123')
+ *   .withResponse();
+ * console.log(response.status, response.headers.get('x-ratelimit-remaining'), requestId);
+ * ```
+ */
+export class APIPromise<T> extends Promise<T> {
+  private unwrapped?: Promise<T>;
+
+  constructor(private readonly responsePromise: Promise<WithResponse<T>>) {
+    // The base promise is never observed: then, catch and finally read from responsePromise
+    super((resolve) => resolve(undefined as T));
+  }
+
+  /**
+   * Wrap an async function that ends in a request, e.g. one that validates
+   * parameters first. Errors thrown before the request reject the promise.
+   */
+  static from<T>(fn: () => Promise<WithResponse<T>>): APIPromise<T> {
+    return new APIPromise(fn());
+  }
+
+  /**
+   * Resolve to the parsed body together with the HTTP response.
+   */
+  withResponse(): Promise<WithResponse<T>> {
+    return this.responsePromise;
+  }
+
+  /**
+   * Transform the parsed body while keeping the response, e.g. to convert amounts.
+   */
+  map<U>(transform: (data: T) => U): APIPromise<U> {
+    return new APIPromise(
+      this.responsePromise.then((result) => ({ ...result, data: transform(result.data) }))
+    );
+  }
+
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.unwrap().then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(
+    onrejected?: ((reason: unknown) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T | TResult> {
+    return this.unwrap().catch(onrejected);
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.unwrap().finally(onfinally);
+  }
+
+  private unwrap(): Promise<T> {
+    this.unwrapped ??= this.responsePromise.then((result) => result.data);
+    return this.unwrapped;
+  }
+}
@@ -2,22 +2,51 @@
  * PayCoinPro HTTP Client
  */
 
-import type { PayCoinProOptions, RequestOptions } from '../types/index.js';
-import { APIError, TimeoutError, ConnectionError } from './errors.js';
+import { randomUUID } from 'crypto';
+import type {
+  APIRequestOptions,
+  AppInfo,
+  PayCoinProOptions,
+  RequestOptions,
+} from '../types/index.js';
+import { VERSION } from '../version.js';
+import { APIPromise } from './api-promise.js';
+import type { WithResponse } from './api-promise.js';
+import { APIError, TimeoutError, ConnectionError, RequestAbortedError } from './errors.js';
+import { runHooks } from './hooks.js';
+import { parseJSON } from './json.js';
+import { SDKLogger } from './logger.js';
+import type { RequestHookContext, RequestHooks } from './hooks.js';
+import { getRetryDelay, isRetryable, parseRetryAfter, sleep } from './retry.js';
+import type { RetryPolicy } from './retry.js';
+import { startRequestSpan } from './telemetry.js';
+import type { RequestSpan } from './telemetry.js';
+import { checkResponse } from './validation.js';
+import type { Schema, ValidationMode } from './validation.js';
 
 const DEFAULT_BASE_URL = 'https://paycoinpro.com/api/v1';
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_MAX_RETRIES = 0;
 
-type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
 export class APIClient {
   private readonly apiKey: string;
   private readonly baseURL: string;
-  private readonly timeout: number;
   private readonly maxRetries: number;
-  private readonly debug: boolean;
+  private readonly retryPolicy: RetryPolicy;
   private readonly _fetch: typeof fetch;
+  private readonly defaultHeaders: Record<string, string>;
+  private readonly userAgent: string;
+  private readonly validateResponses: ValidationMode;
+  private readonly hooks: RequestHooks[];
+  private readonly tracing: boolean;
+  private readonly cryptoAmounts: boolean;
+  /** Whether resources check create parameters before sending */
+  readonly validateRequests: boolean;
+  /** Request timeout in ms when `RequestOptions.timeout` isn't given */
+  readonly timeout: number;
+  readonly logger: SDKLogger;
 
   constructor(options: PayCoinProOptions) {
     if (!options.apiKey) {
@@ -27,111 +56,272 @@ export class APIClient {
     this.baseURL = options.baseURL ?? DEFAULT_BASE_URL;
     this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
     this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
-    this.debug = options.debug ?? false;
+    this.retryPolicy = options.retry ?? {};
     this._fetch = options.fetch ?? globalThis.fetch;
+    this.defaultHeaders = options.defaultHeaders ?? {};
+    this.userAgent = buildUserAgent(options.appInfo);
+    this.validateResponses = options.validateResponses ?? 'off';
+    this.validateRequests = options.validateRequests ?? true;
+    this.hooks = options.hooks ? [options.hooks].flat() : [];
+    this.tracing = options.tracing ?? true;
+    this.cryptoAmounts = options.cryptoAmounts ?? false;
+    this.logger = new SDKLogger(options);
   }
 
-  async get<T>(
+  get<T>(
     path: string,
     params?: Record<string, unknown>,
-    options?: RequestOptions
-  ): Promise<T> {
-    return this.request<T>('GET', path, undefined, params, options);
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): APIPromise<T> {
+    return new APIPromise(this.send<T>('GET', path, undefined, params, options, schema));
   }
 
-  async post<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
-    return this.request<T>('POST', path, body, undefined, options);
+  post<T>(
+    path: string,
+    body?: unknown,
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): APIPromise<T> {
+    return new APIPromise(this.send<T>('POST', path, body, undefined, options, schema));
+  }
+
+  /**
+   * Call any endpoint, e.g. one the SDK doesn't wrap yet. Retries, hooks,
+   * logging and tracing apply as for resource methods; the body isn't validated.
+   */
+  request<T = unknown>(
+    method: HTTPMethod,
+    path: string,
+    options: APIRequestOptions = {}
+  ): APIPromise<T> {
+    const { query, body, ...requestOptions } = options;
+    return new APIPromise(this.send<T>(method, path, body, query, requestOptions));
   }
 
-  private async request<T>(
+  private async send<T>(
     method: HTTPMethod,
     path: string,
     body?: unknown,
     params?: Record<string, unknown>,
-    options?: RequestOptions
-  ): Promise<T> {
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): Promise<WithResponse<T>> {
     const url = this.buildURL(path, params);
+    const span = this.tracing ? startRequestSpan(method, path, url) : undefined;
+
+    try {
+      const result = await this.requestWithRetries<T>(method, url, body, options, span);
+
+      // Checked once, outside the retry loop: a malformed body won't improve on retry
+      if (schema) {
+        checkResponse(
+          this.validateResponses,
+          schema,
+          result.data,
+          `${method} ${path} response`,
+          this.logger
+        );
+      }
+      span?.end();
+      return result;
+    } catch (error) {
+      span?.end(error);
+      throw error;
+    }
+  }
+
+  private async requestWithRetries<T>(
+    method: HTTPMethod,
+    url: string,
+    body?: unknown,
+    options?: RequestOptions,
+    span?: RequestSpan
+  ): Promise<WithResponse<T>> {
     const maxRetries = options?.maxRetries ?? this.maxRetries;
-    let lastError: Error | undefined;
+    // One key per logical request, reused on every attempt so the API can deduplicate retries.
+    // A key set through headers is kept, so callers can deduplicate across processes.
+    const idempotencyKey =
+      options?.idempotencyKey ??
+      findHeader('Idempotency-Key', this.defaultHeaders, options?.headers) ??
+      (method === 'POST' && maxRetries > 0 ? randomUUID() : undefined);
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    for (let attempt = 0; ; attempt++) {
       try {
-        return await this.makeRequest<T>(method, url, body, options);
+        return await this.makeRequest<T>(method, url, attempt, body, options, idempotencyKey, span);
       } catch (error) {
-        lastError = error as Error;
-
-        if (error instanceof APIError && error.status < 500 && error.status !== 429) {
+        if (
+          attempt >= maxRetries ||
+          !this.shouldRetry(error, attempt, method, url, idempotencyKey)
+        ) {
+          this.logger.debug('Request failed', {
+            method,
+            url,
+            attempts: attempt + 1,
+            status: error instanceof APIError ? error.status : undefined,
+            error,
+          });
           throw error;
         }
 
-        if (attempt >= maxRetries) {
-          throw error;
-        }
-
-        const delay = 1000 * Math.pow(2, attempt);
-        await new Promise((r) => setTimeout(r, delay));
+        const delayMs = getRetryDelay(error, attempt, this.retryPolicy);
+        this.logger.info('Retrying request', {
+          method,
+          url,
+          attempt: attempt + 1,
+          delayMs,
+          status: error instanceof APIError ? error.status : undefined,
+          error,
+        });
+        await sleep(delayMs, options?.signal);
       }
     }
+  }
 
-    throw lastError ?? new Error('Request failed');
+  private shouldRetry(
+    error: unknown,
+    attempt: number,
+    method: HTTPMethod,
+    url: string,
+    idempotencyKey?: string
+  ): boolean {
+    // A caller abort is final, whatever the policy says
+    if (error instanceof RequestAbortedError) {
+      return false;
+    }
+
+    const hasIdempotencyKey = idempotencyKey !== undefined;
+    const defaultDecision = isRetryable(error, method, hasIdempotencyKey);
+
+    if (!this.retryPolicy.shouldRetry) {
+      return defaultDecision;
+    }
+
+    return this.retryPolicy.shouldRetry({
+      attempt,
+      method,
+      url,
+      error,
+      hasIdempotencyKey,
+      defaultDecision,
+    });
   }
 
   private async makeRequest<T>(
     method: HTTPMethod,
     url: string,
+    attempt: number,
     body?: unknown,
-    options?: RequestOptions
-  ): Promise<T> {
+    options?: RequestOptions,
+    idempotencyKey?: string,
+    span?: RequestSpan
+  ): Promise<WithResponse<T>> {
     const timeout = options?.timeout ?? this.timeout;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const signal = options?.signal;
+
+    if (signal?.aborted) {
+      throw new RequestAbortedError();
+    }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${this.apiKey}`,
-      ...options?.headers,
-    };
+    // Later sources win: SDK defaults, then client defaultHeaders, then per-request headers
+    const headers = mergeHeaders(
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': this.userAgent,
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      this.defaultHeaders,
+      options?.headers,
+      idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+    );
+    span?.beginAttempt(headers);
 
-    if (this.debug) {
-      console.log(`[PayCoinPro] ${method} ${url}`);
+    const context: RequestHookContext = { method, url, headers, body, attempt };
+    // Without hooks, fetch is called synchronously, so an abort can't slip in before it
+    if (this.hooks.length > 0) {
+      await runHooks(this.hooks, 'beforeRequest', context);
+      if (signal?.aborted) {
+        throw new RequestAbortedError();
+      }
     }
 
+    this.logger.debug('Sending request', { method, url, attempt, headers: context.headers, body });
+
+    // Aborted either by the timeout or by the caller's signal
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const startedAt = Date.now();
+    let response: Response;
+    let parsed: ResponseBody;
+
     try {
-      const response = await this._fetch(url, {
+      response = await this._fetch(url, {
         method,
-        headers,
+        headers: context.headers,
         body: body ? JSON.stringify(body) : undefined,
         signal: controller.signal,
       });
 
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw APIError.fromResponse(response.status, data?.error);
-      }
-
-      // API returns data directly, not wrapped in { data: ... }
-      return data as T;
+      parsed = await readBody(response, this.cryptoAmounts);
     } catch (error) {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
 
-      if (error instanceof APIError) {
-        throw error;
-      }
+      const failure = toRequestError(error, signal);
+      await runHooks(this.hooks, 'onError', {
+        ...context,
+        error: failure,
+        durationMs: Date.now() - startedAt,
+      });
+      throw failure;
+    }
 
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new TimeoutError();
-        }
-        if (error.message.includes('fetch')) {
-          throw new ConnectionError(error.message);
-        }
-      }
+    const { data } = parsed;
+    const durationMs = Date.now() - startedAt;
+    const requestId = response.headers?.get('x-request-id') ?? undefined;
+    span?.setStatusCode(response.status);
+    this.logger.debug('Received response', {
+      method,
+      url,
+      attempt,
+      status: response.status,
+      durationMs,
+      requestId,
+    });
+    await runHooks(this.hooks, 'afterResponse', {
+      ...context,
+      status: response.status,
+      durationMs,
+      responseHeaders: response.headers,
+      data,
+    });
 
+    if (!response.ok || !parsed.json) {
+      const error = response.ok
+        ? APIError.invalidResponse(response.status, data, response.headers)
+        : APIError.fromResponse(
+            response.status,
+            data,
+            response.headers,
+            parseRetryAfter(response.headers)
+          );
+      await runHooks(this.hooks, 'onError', {
+        ...context,
+        error,
+        status: response.status,
+        durationMs,
+      });
       throw error;
     }
+
+    // API returns data directly, not wrapped in { data: ... }
+    return { data: data as T, response, requestId, durationMs };
   }
 
   private buildURL(path: string, params?: Record<string, unknown>): string {
@@ -155,3 +345,102 @@ export class APIClient {
     return url.toString();
   }
 }
+
+/** A response body, and whether it was JSON */
+interface ResponseBody {
+  data: unknown;
+  json: boolean;
+}
+
+/**
+ * Parse the body as JSON. Empty bodies give `undefined`, and bodies that aren't
+ * JSON, such as a load balancer's HTML error page, are returned as text with
+ * `json: false`. `keepNumberText` keeps the source text of amounts for `CryptoAmount`.
+ */
+async function readBody(response: Response, keepNumberText: boolean): Promise<ResponseBody> {
+  const text = await response.text();
+  if (text.trim() === '') {
+    return { data: undefined, json: true };
+  }
+  try {
+    return { data: keepNumberText ? parseJSON(text) : JSON.parse(text), json: true };
+  } catch {
+    return { data: text, json: false };
+  }
+}
+
+/**
+ * Map fetch failures to SDK errors: aborts become `RequestAbortedError` or
+ * `TimeoutError`, network failures `ConnectionError`.
+ */
+function toRequestError(error: unknown, signal?: AbortSignal): unknown {
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') {
+      return signal?.aborted ? new RequestAbortedError() : new TimeoutError();
+    }
+    if (error.message.includes('fetch')) {
+      return new ConnectionError(error.message);
+    }
+  }
+  return error;
+}
+
+/**
+ * Merge header objects left to right. Names are compared case-insensitively,
+ * so a later `user-agent` replaces an earlier `User-Agent`.
+ */
+function mergeHeaders(
+  ...sources: Array<Record<string, string> | undefined>
+): Record<string, string> {
+  const merged: Record<string, string> = {};
+  const names = new Map<string, string>();
+
+  for (const source of sources) {
+    if (!source) {
+      continue;
+    }
+    for (const [name, value] of Object.entries(source)) {
+      const previous = names.get(name.toLowerCase());
+      if (previous !== undefined) {
+        delete merged[previous];
+      }
+      names.set(name.toLowerCase(), name);
+      merged[name] = value;
+    }
+  }
+
+  return merged;
+}
+
+/** Value of a header from the last source that sets it, matching the name case-insensitively */
+function findHeader(
+  name: string,
+  ...sources: Array<Record<string, string> | undefined>
+): string | undefined {
+  let found: string | undefined;
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source ?? {})) {
+      if (key.toLowerCase() === name.toLowerCase()) {
+        found = value;
+      }
+    }
+  }
+  return found;
+}
+
+function buildUserAgent(appInfo?: AppInfo): string {
+  let userAgent = `paycoinpro-node/${VERSION}`;
+
+  if (typeof process !== 'undefined' && process.version) {
+    userAgent += ` node/${process.version}`;
+  }
+
+  if (appInfo) {
+    userAgent += ` ${appInfo.name}${appInfo.version ? `/${appInfo.version}` : ''}`;
+    if (appInfo.url) {
+      userAgent += ` (${appInfo.url})`;
+    }
+  }
+
+  return userAgent;
+}
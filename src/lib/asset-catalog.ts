@@ -0,0 +1,166 @@
+/**
+ * PayCoinPro Asset Catalog
+ */
+
+import type { Assets } from '../resources/assets.js';
+import type { Asset, AssetNetwork, RequestOptions } from '../types/index.js';
+import { RequestAbortedError } from './errors.js';
+import type { ValidationIssue } from './validation.js';
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+export interface AssetCatalogOptions {
+  /** How long the asset list is reused before it is fetched again, in ms (default: 300000) */
+  ttlMs?: number;
+}
+
+/**
+ * Cached view of `assets.list()` with case-insensitive lookups by symbol
+ * and network code.
+ *
+ * Concurrent lookups share a single request, which one caller's `signal`
+ * aborting doesn't cancel for the others. Failed fetches are not cached.
+ *
+ * @example
+ * ```typescript
+ * if (!(await client.assetCatalog.isSupported('usdt', 'BSC'))) {
+ *   const networks = await client.assetCatalog.networksFor('usdt');
+ *   console.log(`Pick one of ${networks.map((n) => n.code).join(', ')}`);
+ * }
+ * ```
+ */
+export class AssetCatalog {
+  private readonly ttlMs: number;
+  private assets: Map<string, Asset> | undefined;
+  private expiresAt = 0;
+  private pending: Promise<Map<string, Asset>> | undefined;
+
+  constructor(
+    private readonly source: Assets,
+    options?: AssetCatalogOptions
+  ) {
+    this.ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  /**
+   * All supported assets, fetched when the cache is empty or stale.
+   */
+  async list(options?: RequestOptions): Promise<Asset[]> {
+    return [...(await this.load(options)).values()];
+  }
+
+  /**
+   * Look up an asset by symbol, e.g. `'usdt'`.
+   */
+  async find(symbol: string, options?: RequestOptions): Promise<Asset | undefined> {
+    return (await this.load(options)).get(symbol.toLowerCase());
+  }
+
+  /**
+   * Networks `symbol` can be paid on, empty when the asset is not supported.
+   */
+  async networksFor(symbol: string, options?: RequestOptions): Promise<AssetNetwork[]> {
+    return (await this.find(symbol, options))?.networks ?? [];
+  }
+
+  /**
+   * Whether `symbol` is supported, and on `network` when given.
+   */
+  async isSupported(symbol: string, network?: string, options?: RequestOptions): Promise<boolean> {
+    const asset = await this.find(symbol, options);
+    return (
+      asset !== undefined && (network === undefined || findNetwork(asset, network) !== undefined)
+    );
+  }
+
+  /**
+   * Check an `asset`/`network` pair from create parameters against the catalog.
+   *
+   * @returns Every issue found, empty when supported or when `asset` is omitted
+   */
+  async check(
+    params: { asset?: string; network?: string },
+    options?: RequestOptions
+  ): Promise<ValidationIssue[]> {
+    if (!params.asset) {
+      return [];
+    }
+
+    const asset = await this.find(params.asset, options);
+    if (!asset) {
+      return [
+        { path: '/asset', message: `${JSON.stringify(params.asset)} is not a supported asset` },
+      ];
+    }
+    if (params.network && !findNetwork(asset, params.network)) {
+      const codes = asset.networks.map((n) => n.code).join(', ');
+      return [
+        {
+          path: '/network',
+          message: `${JSON.stringify(params.network)} is not supported for ${asset.symbol} (supported: ${codes})`,
+        },
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Fetch the asset list now, replacing the cached one.
+   */
+  async refresh(options?: RequestOptions): Promise<Asset[]> {
+    this.clear();
+    return this.list(options);
+  }
+
+  /**
+   * Drop the cached asset list so the next lookup fetches it again.
+   */
+  clear(): void {
+    this.assets = undefined;
+    this.expiresAt = 0;
+  }
+
+  private async load(options?: RequestOptions): Promise<Map<string, Asset>> {
+    if (this.assets && Date.now() < this.expiresAt) {
+      return this.assets;
+    }
+
+    if (!this.pending) {
+      this.pending = this.source
+        .list({ ...options, signal: undefined })
+        .then(({ assets }) => {
+          this.assets = new Map(assets.map((asset) => [asset.symbol.toLowerCase(), asset]));
+          this.expiresAt = Date.now() + this.ttlMs;
+          return this.assets;
+        })
+        .finally(() => {
+          this.pending = undefined;
+        });
+    }
+    return abortable(this.pending, options?.signal);
+  }
+}
+
+/**
+ * Settle like `promise`, or reject with `RequestAbortedError` as soon as
+ * `signal` aborts, leaving `promise` running for anyone else awaiting it.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new RequestAbortedError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new RequestAbortedError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function findNetwork(asset: Asset, code: string): AssetNetwork | undefined {
+  const wanted = code.toLowerCase();
+  return asset.networks.find((network) => network.code.toLowerCase() === wanted);
+}
@@ -2,77 +2,210 @@
  * PayCoinPro SDK Errors
  */
 
+import type { Invoice } from '../types/index.js';
+import type { ValidationIssue } from './validation.js';
+
 export class PayCoinProError extends Error {
   constructor(message: string) {
     super(message);
     this.name = 'PayCoinProError';
     Object.setPrototypeOf(this, new.target.prototype);
   }
+
+  /**
+   * Plain object with the name, message and every field of the error, so
+   * `JSON.stringify` and structured loggers don't drop them.
+   */
+  toJSON(): Record<string, unknown> {
+    const fields = Object.entries(this).filter(([, value]) => value !== undefined);
+    return { name: this.name, message: this.message, ...Object.fromEntries(fields) };
+  }
+
+  /**
+   * Whether trying the request again may succeed. The default retry policy
+   * relies on this; see `RetryPolicy.shouldRetry` to override it.
+   */
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/** What the API sent back with an error status */
+export interface APIErrorResponse {
+  /** `details` from the `ErrorResponse` body, e.g. field validation errors */
+  details?: unknown;
+  /** `X-Request-Id` response header; include it when contacting support */
+  requestId?: string;
+  /** Response headers, with lower-case names */
+  headers?: Record<string, string>;
+  /** Response body as received */
+  body?: unknown;
+  /** Seconds to wait before retrying, from `Retry-After` or rate-limit reset headers */
+  retryAfter?: number;
 }
 
 export class APIError extends PayCoinProError {
   readonly status: number;
   readonly code: string;
+  readonly details?: unknown;
+  readonly requestId?: string;
+  readonly headers?: Record<string, string>;
+  readonly body?: unknown;
+  /** Seconds to wait before retrying, e.g. from `Retry-After` on a 429 or 503 */
+  readonly retryAfter?: number;
 
-  constructor(message: string, status: number, code: string = 'api_error') {
+  constructor(
+    message: string,
+    status: number,
+    code: string = 'api_error',
+    response: APIErrorResponse = {}
+  ) {
     super(message);
     this.name = 'APIError';
     this.status = status;
     this.code = code;
+    this.details = response.details;
+    this.requestId = response.requestId;
+    this.headers = response.headers;
+    this.body = response.body;
+    this.retryAfter = response.retryAfter;
+  }
+
+  /** Rate limits and server errors are retryable */
+  get isRetryable(): boolean {
+    return this.status === 429 || this.status >= 500;
   }
 
-  static fromResponse(status: number, error?: { code: string; message: string }): APIError {
-    const message = error?.message ?? `Request failed with status ${status}`;
-    const code = error?.code ?? 'unknown_error';
+  /**
+   * Build the error for an unsuccessful response.
+   *
+   * Reads the documented `ErrorResponse` body (`{ error: string, code, details? }`)
+   * as well as the older `{ error: { code, message } }` shape. Other bodies, such
+   * as a proxy's HTML error page, keep a generic message and end up in `body`.
+   */
+  static fromResponse(
+    status: number,
+    body?: unknown,
+    headers?: Headers,
+    retryAfter?: number
+  ): APIError {
+    const parsed = parseErrorBody(body);
+    const message = parsed.message ?? `Request failed with status ${status}`;
+    const code = parsed.code ?? 'unknown_error';
+    const response = { ...describeResponse(body, headers, parsed.details), retryAfter };
 
     switch (status) {
       case 400:
-        return new BadRequestError(message, code);
+        return new BadRequestError(message, code, response);
       case 401:
-        return new AuthenticationError(message, code);
+        return new AuthenticationError(message, code, response);
+      case 403:
+        return new PermissionDeniedError(message, code, response);
       case 404:
-        return new NotFoundError(message, code);
+        return new NotFoundError(message, code, response);
+      case 409:
+        return new ConflictError(message, code, response);
+      case 422:
+        return new UnprocessableEntityError(message, code, response);
       case 429:
-        return new RateLimitError(message, code);
+        return new RateLimitError(message, code, retryAfter, response);
       default:
-        return new APIError(message, status, code);
+        return status >= 500
+          ? new InternalServerError(message, status, code, response)
+          : new APIError(message, status, code, response);
     }
   }
+
+  /**
+   * Build the error for a successful response whose body isn't JSON,
+   * e.g. an HTML page from a misconfigured `baseURL`.
+   */
+  static invalidResponse(status: number, body: unknown, headers?: Headers): APIError {
+    return new APIError(
+      `Expected a JSON response, got ${headers?.get('content-type') ?? 'a non-JSON body'}`,
+      status,
+      'invalid_response',
+      describeResponse(body, headers)
+    );
+  }
 }
 
 export class BadRequestError extends APIError {
-  constructor(message: string, code: string = 'bad_request') {
-    super(message, 400, code);
+  constructor(message: string, code: string = 'bad_request', response?: APIErrorResponse) {
+    super(message, 400, code, response);
     this.name = 'BadRequestError';
   }
 }
 
 export class AuthenticationError extends APIError {
-  constructor(message: string, code: string = 'authentication_error') {
-    super(message, 401, code);
+  constructor(message: string, code: string = 'authentication_error', response?: APIErrorResponse) {
+    super(message, 401, code, response);
     this.name = 'AuthenticationError';
   }
 }
 
+export class PermissionDeniedError extends APIError {
+  constructor(message: string, code: string = 'permission_denied', response?: APIErrorResponse) {
+    super(message, 403, code, response);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
 export class NotFoundError extends APIError {
-  constructor(message: string, code: string = 'not_found') {
-    super(message, 404, code);
+  constructor(message: string, code: string = 'not_found', response?: APIErrorResponse) {
+    super(message, 404, code, response);
     this.name = 'NotFoundError';
   }
 }
 
+export class ConflictError extends APIError {
+  constructor(message: string, code: string = 'conflict', response?: APIErrorResponse) {
+    super(message, 409, code, response);
+    this.name = 'ConflictError';
+  }
+}
+
+export class UnprocessableEntityError extends APIError {
+  constructor(message: string, code: string = 'unprocessable_entity', response?: APIErrorResponse) {
+    super(message, 422, code, response);
+    this.name = 'UnprocessableEntityError';
+  }
+}
+
 export class RateLimitError extends APIError {
-  constructor(message: string, code: string = 'rate_limit') {
-    super(message, 429, code);
+  constructor(
+    message: string,
+    code: string = 'rate_limit',
+    retryAfter?: number,
+    response?: APIErrorResponse
+  ) {
+    super(message, 429, code, { ...response, retryAfter: retryAfter ?? response?.retryAfter });
     this.name = 'RateLimitError';
   }
 }
 
+/** Any 5xx response */
+export class InternalServerError extends APIError {
+  constructor(
+    message: string,
+    status: number = 500,
+    code: string = 'internal_error',
+    response?: APIErrorResponse
+  ) {
+    super(message, status, code, response);
+    this.name = 'InternalServerError';
+  }
+}
+
 export class TimeoutError extends PayCoinProError {
   constructor(message: string = 'Request timed out') {
     super(message);
     this.name = 'TimeoutError';
   }
+
+  get isRetryable(): boolean {
+    return true;
+  }
 }
 
 export class ConnectionError extends PayCoinProError {
@@ -80,4 +213,132 @@ export class ConnectionError extends PayCoinProError {
     super(message);
     this.name = 'ConnectionError';
   }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+export class RequestAbortedError extends PayCoinProError {
+  constructor(message: string = 'Request was aborted') {
+    super(message);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+export class InvoiceTerminalStatusError extends PayCoinProError {
+  /** The invoice as last retrieved */
+  readonly invoice: Invoice;
+  /** The final status it reached instead of one that was waited for */
+  readonly status: Invoice['status'];
+
+  constructor(invoice: Invoice) {
+    super(`Invoice ${invoice.id} ended with status ${invoice.status}`);
+    this.name = 'InvoiceTerminalStatusError';
+    this.invoice = invoice;
+    this.status = invoice.status;
+  }
+}
+
+export class InvoiceExpiredError extends InvoiceTerminalStatusError {
+  constructor(invoice: Invoice) {
+    super(invoice);
+    this.name = 'InvoiceExpiredError';
+  }
+}
+
+export class WaitTimeoutError extends TimeoutError {
+  /** The invoice as last retrieved before giving up */
+  readonly invoice: Invoice;
+
+  constructor(invoice: Invoice, timeoutMs: number) {
+    super(`Invoice ${invoice.id} still ${invoice.status} after ${timeoutMs}ms`);
+    this.name = 'WaitTimeoutError';
+    this.invoice = invoice;
+  }
+
+  /** The invoice didn't change in time; asking again right away won't help */
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+export class ResponseValidationError extends PayCoinProError {
+  /** Every mismatch, with JSON-pointer paths into the response body */
+  readonly issues: ValidationIssue[];
+  /** What was validated, e.g. `GET /invoices response` or `webhook payload` */
+  readonly source: string;
+
+  constructor(source: string, issues: ValidationIssue[]) {
+    super(`${source} does not match the API schema:\n${formatIssues(issues, 5)}`);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+    this.source = source;
+  }
+}
+
+/**
+ * Thrown before sending a request whose parameters break documented API
+ * constraints. Disable with `validateRequests: false`.
+ */
+export class ValidationError extends PayCoinProError {
+  /** Every violated constraint, with JSON-pointer paths into the parameters */
+  readonly issues: ValidationIssue[];
+
+  constructor(what: string, issues: ValidationIssue[]) {
+    super(`Invalid ${what}:\n${formatIssues(issues)}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+function formatIssues(issues: ValidationIssue[], limit: number = issues.length): string {
+  const lines = issues.slice(0, limit).map((issue) => `${issue.path || '/'}: ${issue.message}`);
+  if (issues.length > limit) {
+    lines.push(`(${issues.length - limit} more)`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Pick the message, code and details out of an error body.
+ */
+function parseErrorBody(body: unknown): { message?: string; code?: string; details?: unknown } {
+  if (typeof body !== 'object' || body === null) {
+    return {};
+  }
+  const { error, code, details } = body as Record<string, unknown>;
+
+  // Legacy shape: { error: { code, message } }
+  if (typeof error === 'object' && error !== null) {
+    const legacy = error as Record<string, unknown>;
+    return {
+      message: typeof legacy.message === 'string' ? legacy.message : undefined,
+      code: typeof legacy.code === 'string' ? legacy.code : undefined,
+      details: legacy.details ?? details,
+    };
+  }
+
+  return {
+    message: typeof error === 'string' ? error : undefined,
+    code: typeof code === 'string' ? code : undefined,
+    details,
+  };
+}
+
+function describeResponse(body: unknown, headers?: Headers, details?: unknown): APIErrorResponse {
+  return {
+    details,
+    requestId: headers?.get('x-request-id') ?? undefined,
+    headers: headers ? headersToObject(headers) : undefined,
+    body,
+  };
+}
+
+function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = value;
+  });
+  return result;
 }
@@ -0,0 +1,60 @@
+/**
+ * PayCoinPro Request Hooks
+ */
+
+export interface RequestHookContext {
+  method: string;
+  url: string;
+  /** Headers about to be sent. `beforeRequest` may add, change or delete entries. */
+  headers: Record<string, string>;
+  /** Request body before JSON serialization */
+  body: unknown;
+  /** Zero-based attempt number, incremented on every retry */
+  attempt: number;
+}
+
+export interface ResponseHookContext extends RequestHookContext {
+  status: number;
+  /** Time from sending the request to parsing the response body, in ms */
+  durationMs: number;
+  responseHeaders: Headers;
+  /** Parsed response body */
+  data: unknown;
+}
+
+export interface ErrorHookContext extends RequestHookContext {
+  error: unknown;
+  /** HTTP status, when the API answered with an error */
+  status?: number;
+  /** Time from sending the request to the failure, in ms */
+  durationMs: number;
+}
+
+/**
+ * Callbacks around every HTTP attempt, e.g. for trace headers, metrics or audit logs.
+ *
+ * Hooks run in order and are awaited. An error thrown by a hook fails the
+ * request with that error.
+ */
+export interface RequestHooks {
+  /** Called before each attempt is sent */
+  beforeRequest?: (context: RequestHookContext) => void | Promise<void>;
+  /** Called for each HTTP response, including 4xx and 5xx, before it is handled */
+  afterResponse?: (context: ResponseHookContext) => void | Promise<void>;
+  /** Called when an attempt fails, before the SDK decides whether to retry */
+  onError?: (context: ErrorHookContext) => void | Promise<void>;
+}
+
+/**
+ * Run the `name` hook of every entry in `hooks`, in order.
+ */
+export async function runHooks<K extends keyof RequestHooks>(
+  hooks: readonly RequestHooks[],
+  name: K,
+  context: Parameters<NonNullable<RequestHooks[K]>>[0]
+): Promise<void> {
+  for (const hook of hooks) {
+    const fn = hook[name] as ((context: unknown) => void | Promise<void>) | undefined;
+    await fn?.(context);
+  }
+}
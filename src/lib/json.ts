@@ -0,0 +1,167 @@
+/**
+ * PayCoinPro JSON Parsing
+ *
+ * `JSON.parse` rounds numbers to doubles before the SDK sees them, so an
+ * 18-decimal amount like `1.123456789012345678` arrives as `1.1234567890123457`.
+ * `parseJSON` returns the same values but remembers the source text of numbers
+ * a double doesn't reproduce, for `CryptoAmount` conversion to read back.
+ */
+
+/** Source text of numbers, keyed by the object or array holding them */
+const numberSources = new WeakMap<object, Map<string, string>>();
+
+type Reviver = (
+  this: unknown,
+  key: string,
+  value: unknown,
+  context?: { source?: string }
+) => unknown;
+
+// `context.source` is passed to revivers from Node 21 (V8 11.4) on
+const REVIVER_HAS_SOURCE = (() => {
+  let supported = false;
+  JSON.parse('1', ((_key, value, context) => {
+    supported = context?.source === '1';
+    return value;
+  }) as Reviver);
+  return supported;
+})();
+
+/**
+ * `JSON.parse` that keeps the source text of numbers for `numberSource`.
+ *
+ * @throws SyntaxError like `JSON.parse` when `text` isn't JSON
+ */
+export function parseJSON(text: string): unknown {
+  if (REVIVER_HAS_SOURCE) {
+    return JSON.parse(text, function (key, value, context) {
+      if (typeof value === 'number' && context?.source !== undefined) {
+        record(this, key, value, context.source);
+      }
+      return value;
+    } as Reviver);
+  }
+
+  const value: unknown = JSON.parse(text);
+  new SourceWalker(text).walk(undefined, '', value);
+  return value;
+}
+
+/**
+ * Original text of the number at `holder[key]`, when it was parsed by
+ * `parseJSON` and a double doesn't reproduce it exactly.
+ */
+export function numberSource(holder: object, key: string | number): string | undefined {
+  return numberSources.get(holder)?.get(String(key));
+}
+
+/**
+ * Source text of each element of the JSON array in `text`, for sending stored
+ * payloads byte for byte. `text` must already have been accepted by `JSON.parse`.
+ */
+export function arrayElementSources(text: string): string[] {
+  return new SourceWalker(text).elements();
+}
+
+function record(holder: unknown, key: string, value: number, source: string): void {
+  // Skip numbers a double reproduces, and sources of values a duplicate key replaced
+  if (
+    typeof holder !== 'object' ||
+    holder === null ||
+    String(value) === source ||
+    Number(source) !== value
+  ) {
+    return;
+  }
+  let sources = numberSources.get(holder);
+  if (!sources) {
+    sources = new Map();
+    numberSources.set(holder, sources);
+  }
+  sources.set(key, source);
+}
+
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const STRING_PATTERN = /"(?:[^"\\]|\\.)*"/y;
+
+/**
+ * Walks text that `JSON.parse` has already accepted alongside the parsed
+ * value, recording number sources where revivers get no `context`. Also
+ * splits arrays into the text of their elements.
+ */
+class SourceWalker {
+  private index = 0;
+
+  constructor(private readonly text: string) {}
+
+  /** Consume the value stored at `holder[key]`, which parsed to `value` */
+  walk(holder: unknown, key: string, value: unknown): void {
+    const char = this.peek();
+
+    if (char === '{' || char === '[') {
+      this.index++;
+      const close = char === '{' ? '}' : ']';
+      for (let i = 0; this.peek() !== close; i++) {
+        let member = String(i);
+        if (close === '}') {
+          member = JSON.parse(this.match(STRING_PATTERN)) as string;
+          this.peek();
+          this.index++; // ':'
+        }
+        this.walk(value, member, childOf(value, member));
+        if (this.peek() === ',') {
+          this.index++;
+        }
+      }
+      this.index++;
+    } else if (char === '"') {
+      this.match(STRING_PATTERN);
+    } else if (char === '-' || (char >= '0' && char <= '9')) {
+      const source = this.match(NUMBER_PATTERN);
+      if (typeof value === 'number') {
+        record(holder, key, value, source);
+      }
+    } else {
+      // true, false or null
+      this.index += char === 'f' ? 5 : 4;
+    }
+  }
+
+  /** Consume the array at the current position, returning the text of each element */
+  elements(): string[] {
+    const sources: string[] = [];
+    this.peek();
+    this.index++; // '['
+    while (this.peek() !== ']') {
+      const start = this.index;
+      this.walk(undefined, '', undefined);
+      sources.push(this.text.slice(start, this.index));
+      if (this.peek() === ',') {
+        this.index++;
+      }
+    }
+    this.index++;
+    return sources;
+  }
+
+  /** Skip whitespace and return the next character */
+  private peek(): string {
+    while (' \t\n\r'.includes(this.text[this.index])) {
+      this.index++;
+    }
+    return this.text[this.index];
+  }
+
+  private match(pattern: RegExp): string {
+    pattern.lastIndex = this.index;
+    const [token] = pattern.exec(this.text) ?? [''];
+    this.index += token.length;
+    return token;
+  }
+}
+
+function childOf(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
@@ -0,0 +1,141 @@
+/**
+ * PayCoinPro Logging
+ */
+
+import { PayCoinProError } from './errors.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+type LogMethod = (message: string, fields?: LogFields) => void;
+
+/**
+ * Anything with leveled methods: `console`, pino, winston, bunyan, etc.
+ *
+ * Messages are passed as `(message, fields)`, or `(fields, message)` for
+ * pino, which expects the object first.
+ */
+export interface Logger {
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+}
+
+export interface LoggerOptions {
+  logger?: Logger;
+  logLevel?: LogLevel | 'off';
+  debug?: boolean;
+}
+
+const LEVELS: Record<LogLevel | 'off', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  off: 100,
+};
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 8;
+
+/** Field and header names whose values are never logged, compared case-insensitively */
+const SENSITIVE_KEYS = new Set(['authorization', 'customeremail', 'apikey', 'x-api-key']);
+
+/** `secret`, `secrets`, `webhookSecret`, ... but not `secretIndex` */
+const SECRET_KEY = /secrets?$/i;
+
+/**
+ * Whether values under `key` are redacted: credentials, customer emails and secrets.
+ */
+function isSensitive(key: string): boolean {
+  return SENSITIVE_KEYS.has(key.toLowerCase()) || SECRET_KEY.test(key);
+}
+
+/**
+ * Deep copy of `value` with sensitive fields replaced by `[REDACTED]`.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  if (value instanceof PayCoinProError) {
+    return redact(value.toJSON(), depth);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = isSensitive(key) ? REDACTED : redact(item, depth + 1);
+  }
+  return copy;
+}
+
+/**
+ * Level-filtered, redacting wrapper around the configured `Logger`.
+ */
+export class SDKLogger {
+  private readonly threshold: number;
+  private readonly write: (level: LogLevel, message: string, fields: LogFields) => void;
+
+  constructor(options: LoggerOptions = {}) {
+    this.threshold = LEVELS[options.logLevel ?? (options.debug ? 'debug' : 'warn')];
+
+    const logger = options.logger;
+    if (!logger) {
+      this.write = (level, message, fields) => console[level](`[PayCoinPro] ${message}`, fields);
+    } else if (isPino(logger)) {
+      const objectFirst = logger as unknown as Record<
+        LogLevel,
+        (fields: LogFields, msg: string) => void
+      >;
+      this.write = (level, message, fields) => objectFirst[level](fields, message);
+    } else {
+      this.write = (level, message, fields) => logger[level](message, fields);
+    }
+  }
+
+  /** Whether messages at `level` are written, to skip building expensive fields */
+  enabled(level: LogLevel): boolean {
+    return LEVELS[level] >= this.threshold;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (this.enabled(level)) {
+      this.write(level, message, redact(fields) as LogFields);
+    }
+  }
+}
+
+/**
+ * pino (and its child loggers) take `(fields, message)` instead of `(message, fields)`.
+ */
+function isPino(logger: Logger): boolean {
+  const candidate = logger as unknown as { bindings?: unknown; levels?: { values?: unknown } };
+  return typeof candidate.bindings === 'function' && typeof candidate.levels?.values === 'object';
+}
@@ -0,0 +1,351 @@
+/**
+ * PayCoinPro Crypto Amounts
+ *
+ * Exact decimal amounts backed by bigint, so reconciliation never suffers
+ * float rounding. Enabled on responses with `cryptoAmounts: true`.
+ */
+
+import type {
+  Amounts,
+  Deposit,
+  DepositAddress,
+  DepositAddressCreated,
+  DepositAddressListResponse,
+  DepositListResponse,
+  ExactDeposit,
+  ExactDepositAddressListResponse,
+  ExactDepositListResponse,
+  ExactInvoice,
+  ExactInvoiceListResponse,
+  ExactWebhookEvent,
+  Invoice,
+  InvoiceListResponse,
+} from '../types/index.js';
+import { numberSource } from './json.js';
+import type { WebhookEvent } from './webhook-signature.js';
+
+const DECIMAL_PATTERN = /^([+-])?(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+export interface FormatAmountOptions {
+  /** Round to this many decimals (default: all significant decimals) */
+  decimals?: number;
+  /** Separate thousands with commas (default: true) */
+  grouping?: boolean;
+  /** Append the asset symbol when known (default: true) */
+  symbol?: boolean;
+}
+
+/**
+ * Crypto amount stored as an integer number of base units plus the asset's decimals.
+ *
+ * Amounts with different decimals can be combined; the result keeps the larger
+ * precision. Combining amounts of different assets throws.
+ *
+ * @example
+ * ```typescript
+ * const received = CryptoAmount.from('100.5', 6, 'USDT');
+ * const fee = CryptoAmount.from('0.000001', 6, 'USDT');
+ *
+ * received.minus(fee).toString(); // '100.499999'
+ * received.gte('100'); // true
+ * received.format(); // '100.5 USDT'
+ * ```
+ */
+export class CryptoAmount {
+  /** Amount in base units (for example wei or satoshi) */
+  readonly units: bigint;
+  readonly decimals: number;
+  readonly symbol: string | null;
+
+  constructor(units: bigint, decimals: number, symbol: string | null = null) {
+    if (!Number.isInteger(decimals) || decimals < 0) {
+      throw new Error(`Invalid decimals: ${decimals}`);
+    }
+    this.units = units;
+    this.decimals = decimals;
+    this.symbol = symbol;
+  }
+
+  /**
+   * Parse a decimal string or number.
+   *
+   * @param decimals - Asset decimals. Extra digits are rounded half away from
+   *   zero. When omitted, the precision of `value` is kept.
+   */
+  static from(
+    value: string | number | CryptoAmount,
+    decimals?: number,
+    symbol: string | null = null
+  ): CryptoAmount {
+    if (value instanceof CryptoAmount) {
+      return decimals === undefined ? value : value.rescale(decimals);
+    }
+
+    const text = typeof value === 'number' ? numberToString(value) : value.trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match) {
+      throw new Error(`Invalid amount: ${JSON.stringify(value)}`);
+    }
+
+    const [, sign, integer, fraction = '', exponent = '0'] = match;
+    const scale = fraction.length - Number(exponent);
+    let units = BigInt(integer + fraction);
+    if (sign === '-') {
+      units = -units;
+    }
+
+    if (scale < 0) {
+      return new CryptoAmount(units * 10n ** BigInt(-scale), 0, symbol).rescale(decimals ?? 0);
+    }
+    return new CryptoAmount(units, scale, symbol).rescale(decimals ?? scale);
+  }
+
+  plus(other: CryptoAmount | string | number): CryptoAmount {
+    const [a, b, symbol] = this.align(other);
+    return new CryptoAmount(a.units + b.units, a.decimals, symbol);
+  }
+
+  minus(other: CryptoAmount | string | number): CryptoAmount {
+    const [a, b, symbol] = this.align(other);
+    return new CryptoAmount(a.units - b.units, a.decimals, symbol);
+  }
+
+  /**
+   * Multiply by a plain factor (for example a fee rate), rounding the result
+   * half away from zero to this amount's decimals.
+   */
+  times(factor: string | number): CryptoAmount {
+    const f = CryptoAmount.from(factor);
+    return new CryptoAmount(
+      divideRounded(this.units * f.units, 10n ** BigInt(f.decimals)),
+      this.decimals,
+      this.symbol
+    );
+  }
+
+  /**
+   * @returns -1, 0 or 1
+   */
+  compare(other: CryptoAmount | string | number): -1 | 0 | 1 {
+    const [a, b] = this.align(other);
+    return a.units < b.units ? -1 : a.units > b.units ? 1 : 0;
+  }
+
+  equals(other: CryptoAmount | string | number): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: CryptoAmount | string | number): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: CryptoAmount | string | number): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  gt(other: CryptoAmount | string | number): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: CryptoAmount | string | number): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  /**
+   * Change precision, rounding half away from zero when decimals are dropped.
+   */
+  rescale(decimals: number): CryptoAmount {
+    if (decimals === this.decimals) {
+      return this;
+    }
+    const units =
+      decimals > this.decimals
+        ? this.units * 10n ** BigInt(decimals - this.decimals)
+        : divideRounded(this.units, 10n ** BigInt(this.decimals - decimals));
+    return new CryptoAmount(units, decimals, this.symbol);
+  }
+
+  /**
+   * Exact decimal string without trailing zeros, e.g. `'100.5'`.
+   */
+  toString(): string {
+    const fixed = this.toFixed();
+    return this.decimals > 0 ? fixed.replace(/0+$/, '').replace(/\.$/, '') : fixed;
+  }
+
+  /**
+   * Decimal string with exactly `decimals` places (default: the asset's decimals).
+   */
+  toFixed(decimals: number = this.decimals): string {
+    const { units } = this.rescale(decimals);
+    const digits = (units < 0n ? -units : units).toString().padStart(decimals + 1, '0');
+    const integer = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals);
+    return `${units < 0n ? '-' : ''}${integer}${decimals > 0 ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Human-readable string, e.g. `'1,250.5 USDT'`.
+   */
+  format(options: FormatAmountOptions = {}): string {
+    let text = options.decimals === undefined ? this.toString() : this.toFixed(options.decimals);
+    if (options.grouping !== false) {
+      const [integer, fraction] = text.split('.');
+      text = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',') + (fraction ? `.${fraction}` : '');
+    }
+    return options.symbol !== false && this.symbol ? `${text} ${this.symbol}` : text;
+  }
+
+  /**
+   * Nearest JavaScript number. May lose precision.
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /** Serializes as an exact decimal string */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private align(
+    other: CryptoAmount | string | number
+  ): [CryptoAmount, CryptoAmount, string | null] {
+    const b = CryptoAmount.from(other);
+    if (this.symbol && b.symbol && this.symbol !== b.symbol) {
+      throw new Error(`Cannot combine ${this.symbol} and ${b.symbol} amounts`);
+    }
+    const decimals = Math.max(this.decimals, b.decimals);
+    return [this.rescale(decimals), b.rescale(decimals), this.symbol ?? b.symbol];
+  }
+}
+
+/**
+ * Integer division rounding half away from zero.
+ */
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+  const quotient = dividend / divisor;
+  const remainder = dividend % divisor;
+  const absRemainder = remainder < 0n ? -remainder : remainder;
+  if (absRemainder * 2n >= divisor) {
+    return quotient + (dividend < 0n ? -1n : 1n);
+  }
+  return quotient;
+}
+
+function numberToString(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  return String(value);
+}
+
+/**
+ * Apply `convert` when `cryptoAmounts` is enabled, typed for the caller's amount mode.
+ */
+export function withAmounts<E extends boolean, Raw, Exact>(
+  enabled: boolean,
+  value: Raw,
+  convert: (raw: Raw) => Exact
+): Amounts<E, Raw, Exact> {
+  return (enabled ? convert(value) : value) as Amounts<E, Raw, Exact>;
+}
+
+/**
+ * Convert `holder[key]`, from the number's source text when the response or
+ * webhook body held more digits than a double keeps.
+ */
+function toAmount<T extends object>(
+  holder: T,
+  key: keyof T & string,
+  decimals?: number,
+  symbol?: string | null
+): CryptoAmount {
+  const value = numberSource(holder, key) ?? (holder[key] as number | string);
+  return CryptoAmount.from(value, decimals, symbol ?? null);
+}
+
+/**
+ * Convert an invoice's crypto amounts, using the invoice asset's decimals.
+ */
+export function toExactInvoice(invoice: Invoice): ExactInvoice {
+  // PENDING invoices have no asset yet
+  const decimals = invoice.asset?.decimals;
+  const symbol = invoice.asset?.symbol;
+
+  return {
+    ...invoice,
+    amountCrypto:
+      invoice.amountCrypto === null ? null : toAmount(invoice, 'amountCrypto', decimals, symbol),
+    amountReceived: toAmount(invoice, 'amountReceived', decimals, symbol),
+    transactions: invoice.transactions?.map((transaction) => ({
+      ...transaction,
+      amount: toAmount(transaction, 'amount', decimals, symbol),
+    })),
+  };
+}
+
+export function toExactInvoiceList(response: InvoiceListResponse): ExactInvoiceListResponse {
+  return { ...response, invoices: response.invoices.map(toExactInvoice) };
+}
+
+export function toExactDepositAddress<T extends DepositAddress | DepositAddressCreated>(
+  address: T
+): Omit<T, 'totalReceived'> & { totalReceived: CryptoAmount } {
+  return {
+    ...address,
+    totalReceived: toAmount(address, 'totalReceived', address.asset.decimals, address.asset.symbol),
+  };
+}
+
+export function toExactDepositAddressList(
+  response: DepositAddressListResponse
+): ExactDepositAddressListResponse {
+  return {
+    ...response,
+    addresses: response.addresses.map(toExactDepositAddress),
+  };
+}
+
+/**
+ * Convert a deposit's amounts. Precision follows the decimal strings returned by the API.
+ */
+export function toExactDeposit(deposit: Deposit): ExactDeposit {
+  const { symbol } = deposit.asset;
+  return {
+    ...deposit,
+    amount: toAmount(deposit, 'amount', undefined, symbol),
+    netAmount: toAmount(deposit, 'netAmount', undefined, symbol),
+    feeAmount: toAmount(deposit, 'feeAmount', undefined, symbol),
+  };
+}
+
+export function toExactDepositList(response: DepositListResponse): ExactDepositListResponse {
+  return { ...response, deposits: response.deposits.map(toExactDeposit) };
+}
+
+/**
+ * Convert a webhook payload's crypto amounts. Useful with `paycoinpro/edge`,
+ * which returns events as delivered.
+ */
+export function toExactWebhookEvent(event: WebhookEvent): ExactWebhookEvent {
+  if (event.event === 'invoice') {
+    return {
+      ...event,
+      amountReceived: toAmount(event, 'amountReceived', undefined, event.cryptoSymbol),
+      amountExpected:
+        event.amountExpected === null
+          ? null
+          : toAmount(event, 'amountExpected', undefined, event.cryptoSymbol),
+    };
+  }
+  return { ...event, amount: toAmount(event, 'amount', undefined, event.cryptoSymbol) };
+}
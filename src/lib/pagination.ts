@@ -0,0 +1,84 @@
+/**
+ * PayCoinPro Auto-Pagination
+ */
+
+export interface ToArrayOptions {
+  /** Maximum number of items to collect */
+  limit?: number;
+}
+
+interface Page<T, C> {
+  items: T[];
+  /** Cursor for the following page, or null when this was the last page */
+  next: C | null;
+}
+
+/**
+ * Async iterator over every item of a paginated list endpoint.
+ * Pages are fetched lazily as iteration progresses, and each new
+ * iteration starts again from the first page.
+ *
+ * @example
+ * ```typescript
+ * for await (const invoice of client.invoices.listAll({ status: 'PAID' })) {
+ *   console.log(invoice.id);
+ * }
+ *
+ * const recent = await client.invoices.listAll().toArray({ limit: 50 });
+ * ```
+ */
+export class Paginator<T, C = unknown> implements AsyncIterable<T> {
+  constructor(
+    private readonly start: C,
+    private readonly fetchPage: (cursor: C) => Promise<Page<T, C>>
+  ) {}
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    let cursor: C | null = this.start;
+
+    while (cursor !== null) {
+      const page: Page<T, C> = await this.fetchPage(cursor);
+      yield* page.items;
+
+      // An empty page that claims more results would otherwise loop forever
+      cursor = page.items.length > 0 ? page.next : null;
+    }
+  }
+
+  /**
+   * Collect items into an array, stopping after `limit` items if given.
+   */
+  async toArray(options?: ToArrayOptions): Promise<T[]> {
+    const limit = options?.limit ?? Infinity;
+    const items: T[] = [];
+
+    if (limit <= 0) {
+      return items;
+    }
+
+    for await (const item of this) {
+      items.push(item);
+      if (items.length >= limit) {
+        break;
+      }
+    }
+
+    return items;
+  }
+}
+
+/**
+ * Paginate an endpoint using `limit`/`offset` query parameters. Deposits report
+ * only `hasMore`, so the next offset is counted from the items received.
+ */
+export function paginateOffset<T, R extends { pagination: { hasMore: boolean } }>(
+  fetch: (offset: number) => Promise<R>,
+  getItems: (response: R) => T[],
+  initialOffset: number = 0
+): Paginator<T, number> {
+  return new Paginator<T, number>(initialOffset, async (offset) => {
+    const response = await fetch(offset);
+    const items = getItems(response);
+    return { items, next: response.pagination.hasMore ? offset + items.length : null };
+  });
+}
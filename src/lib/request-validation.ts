@@ -0,0 +1,127 @@
+/**
+ * Client-side checks for documented request constraints, so invalid
+ * parameters fail before a round trip.
+ */
+
+import type { CreateDepositAddressRequest, CreateInvoiceRequest } from '../types/index.js';
+import { ValidationError } from './errors.js';
+import type { ValidationIssue } from './validation.js';
+
+const EXPIRES_IN_VALUES = [30, 60, 120];
+const MAX_METADATA_KEYS = 20;
+const MAX_EXTERNAL_USER_ID_LENGTH = 255;
+const URL_FIELDS = ['callbackUrl', 'successUrl', 'cancelUrl'] as const;
+
+/**
+ * Check invoice parameters against the constraints documented in the API schema.
+ *
+ * @returns Every violated constraint, empty when valid
+ */
+export function validateInvoiceParams(params: CreateInvoiceRequest): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (typeof params.amount !== 'number' || !Number.isFinite(params.amount) || params.amount <= 0) {
+    issues.push({ path: '/amount', message: 'must be a positive number' });
+  }
+
+  if (params.expiresIn !== undefined && !EXPIRES_IN_VALUES.includes(params.expiresIn)) {
+    issues.push({ path: '/expiresIn', message: 'must be 30, 60 or 120 (minutes)' });
+  }
+
+  const tolerance = params.underpaymentTolerance;
+  if (
+    tolerance !== undefined &&
+    (typeof tolerance !== 'number' || !(tolerance >= 0.1 && tolerance <= 1))
+  ) {
+    issues.push({ path: '/underpaymentTolerance', message: 'must be between 0.1 and 1 (percent)' });
+  }
+
+  if (params.metadata !== undefined) {
+    const entries = Object.entries(params.metadata);
+    if (entries.length > MAX_METADATA_KEYS) {
+      issues.push({
+        path: '/metadata',
+        message: `must have at most ${MAX_METADATA_KEYS} keys, got ${entries.length}`,
+      });
+    }
+    for (const [key, value] of entries) {
+      if (value !== null && typeof value === 'object') {
+        issues.push({
+          path: `/metadata/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`,
+          message: 'must be a string, number, boolean or null',
+        });
+      }
+    }
+  }
+
+  if (params.asset !== undefined && !params.network) {
+    issues.push({ path: '/network', message: 'is required when asset is set' });
+  }
+
+  for (const field of URL_FIELDS) {
+    const value = params[field];
+    if (value !== undefined && !isHTTPURL(value)) {
+      issues.push({ path: `/${field}`, message: 'must be an http or https URL' });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check deposit address parameters against the constraints documented in the API schema.
+ *
+ * @returns Every violated constraint, empty when valid
+ */
+export function validateDepositAddressParams(
+  params: CreateDepositAddressRequest
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!params.asset) {
+    issues.push({ path: '/asset', message: 'is required' });
+  }
+  if (!params.network) {
+    issues.push({ path: '/network', message: 'is required' });
+  }
+
+  if (
+    params.externalUserId !== undefined &&
+    params.externalUserId.length > MAX_EXTERNAL_USER_ID_LENGTH
+  ) {
+    issues.push({
+      path: '/externalUserId',
+      message: `must be at most ${MAX_EXTERNAL_USER_ID_LENGTH} characters`,
+    });
+  }
+
+  // null is documented as "never expires"
+  const expiryDays = params.expiryDays as number | null | undefined;
+  if (
+    expiryDays !== undefined &&
+    expiryDays !== null &&
+    !(Number.isInteger(expiryDays) && expiryDays >= 1 && expiryDays <= 365)
+  ) {
+    issues.push({ path: '/expiryDays', message: 'must be a whole number from 1 to 365' });
+  }
+
+  return issues;
+}
+
+/**
+ * @throws ValidationError listing every issue, if there are any
+ */
+export function assertValidParams(issues: ValidationIssue[], what: string): void {
+  if (issues.length > 0) {
+    throw new ValidationError(what, issues);
+  }
+}
+
+function isHTTPURL(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
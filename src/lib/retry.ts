@@ -0,0 +1,123 @@
+/**
+ * PayCoinPro Retry Policy
+ */
+
+import { APIError, PayCoinProError, RequestAbortedError } from './errors.js';
+
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 30000;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+export interface RetryContext {
+  /** Zero-based index of the attempt that just failed */
+  attempt: number;
+  method: string;
+  url: string;
+  error: unknown;
+  /** Whether the request carries an `Idempotency-Key` header */
+  hasIdempotencyKey: boolean;
+  /** Result of the SDK's default retry decision */
+  defaultDecision: boolean;
+}
+
+export interface RetryPolicy {
+  /** Initial backoff in ms, doubled on every attempt (default: 1000) */
+  baseDelay?: number;
+  /** Upper bound for any delay in ms, including one asked for by `Retry-After` (default: 30000) */
+  maxDelay?: number;
+  /** Randomize backoff between 0 and the computed delay ("full jitter", default: true) */
+  jitter?: boolean;
+  /** Override whether a failed attempt is retried. Return `context.defaultDecision` to keep SDK behavior. */
+  shouldRetry?: (context: RetryContext) => boolean;
+}
+
+/**
+ * Default retry decision.
+ *
+ * Retries errors whose `isRetryable` is set: 429, 5xx, timeouts and connection
+ * failures. Non-idempotent methods (POST, PATCH) are only retried when an
+ * idempotency key guards against duplicates.
+ */
+export function isRetryable(error: unknown, method: string, hasIdempotencyKey: boolean): boolean {
+  if (!IDEMPOTENT_METHODS.has(method) && !hasIdempotencyKey) {
+    return false;
+  }
+
+  return error instanceof PayCoinProError && error.isRetryable;
+}
+
+/**
+ * Delay before the next attempt in ms. A server-provided `Retry-After` on
+ * retryable responses, such as a 429 or a 503 during maintenance, takes
+ * precedence over computed backoff, but is capped at `maxDelay` so a
+ * misbehaving proxy can't stall a request for hours.
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy = {}): number {
+  const maxDelay = policy.maxDelay ?? DEFAULT_MAX_DELAY;
+  if (error instanceof APIError && error.isRetryable && error.retryAfter !== undefined) {
+    return Math.min(maxDelay, error.retryAfter * 1000);
+  }
+
+  const baseDelay = policy.baseDelay ?? DEFAULT_BASE_DELAY;
+  const delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+
+  return policy.jitter === false ? delay : Math.random() * delay;
+}
+
+/**
+ * Parse `Retry-After` (seconds or HTTP date) or a rate-limit reset header
+ * into a number of seconds to wait.
+ */
+export function parseRetryAfter(headers?: Headers, now: number = Date.now()): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds);
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, Math.ceil((date - now) / 1000));
+    }
+  }
+
+  const reset = headers.get('x-ratelimit-reset') ?? headers.get('ratelimit-reset');
+  if (reset) {
+    const value = Number(reset);
+    if (!Number.isNaN(value)) {
+      // Large values are Unix timestamps, small ones are seconds from now
+      const seconds = value > 1e9 ? value - now / 1000 : value;
+      return Math.max(0, Math.ceil(seconds));
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new RequestAbortedError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
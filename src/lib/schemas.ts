@@ -0,0 +1,208 @@
+/**
+ * Runtime schemas mirroring the OpenAPI types in `types/openapi.ts`.
+ *
+ * Each schema is annotated with the generated type, so the compiler flags
+ * drift between the two after `npm run generate`.
+ */
+
+import type {
+  Asset,
+  AssetListResponse,
+  Deposit,
+  DepositAddress,
+  DepositAddressCreated,
+  DepositAddressListResponse,
+  DepositListResponse,
+  DepositWebhookPayload,
+  Invoice,
+  InvoiceCreated,
+  InvoiceListResponse,
+  InvoiceWebhookPayload,
+  Pagination,
+  Transaction,
+} from '../types/index.js';
+import type { WebhookEvent } from './webhook-signature.js';
+import type { Schema } from './validation.js';
+import {
+  array,
+  boolean,
+  discriminated,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+} from './validation.js';
+
+const INVOICE_STATUSES = [
+  'PENDING',
+  'AWAITING',
+  'PAID',
+  'EXPIRED',
+  'PARTIAL',
+  'UNDERPAID',
+  'OVERPAID',
+] as const;
+
+export const paginationSchema: Schema<Pagination> = object({
+  total: number,
+  limit: number,
+  offset: number,
+  hasMore: boolean,
+});
+
+export const transactionSchema: Schema<Transaction> = object({
+  id: string,
+  txHash: nullable(string),
+  amount: number,
+  status: string,
+  createdAt: string,
+  confirmedAt: nullable(string),
+});
+
+export const invoiceSchema: Schema<Invoice> = object({
+  id: string,
+  amount: number,
+  currency: string,
+  amountCrypto: nullable(number),
+  amountReceived: number,
+  status: oneOf(...INVOICE_STATUSES),
+  asset: nullable(
+    object({
+      symbol: string,
+      name: string,
+      decimals: number,
+      iconUrl: nullable(string),
+      network: object({ code: string, name: string }),
+    })
+  ),
+  paymentAddress: nullable(string),
+  orderId: nullable(string),
+  customerEmail: nullable(string),
+  metadata: nullable(record),
+  expiresAt: nullable(string),
+  paidAt: nullable(string),
+  createdAt: string,
+  updatedAt: string,
+  paymentUrl: string,
+  transactions: optional(array(transactionSchema)),
+});
+
+export const invoiceCreatedSchema: Schema<InvoiceCreated> = object({
+  id: string,
+  amount: number,
+  currency: string,
+  status: oneOf(...INVOICE_STATUSES),
+  orderId: nullable(string),
+  customerEmail: nullable(string),
+  title: nullable(string),
+  description: nullable(string),
+  successUrl: nullable(string),
+  cancelUrl: nullable(string),
+  expiresAt: nullable(string),
+  paymentUrl: string,
+  createdAt: string,
+});
+
+export const invoiceListSchema: Schema<InvoiceListResponse> = object({
+  invoices: array(invoiceSchema),
+  pagination: paginationSchema,
+});
+
+const depositAddressFields = {
+  id: string,
+  address: string,
+  status: oneOf('ACTIVE', 'INACTIVE', 'SUSPENDED'),
+  externalUserId: nullable(string),
+  asset: object({ id: string, symbol: string, name: string, decimals: number }),
+  network: object({ id: string, code: string, name: string }),
+  totalReceived: string,
+  paymentCount: number,
+  expiresAt: nullable(string),
+  createdAt: string,
+};
+
+export const depositAddressSchema: Schema<DepositAddress> = object({
+  ...depositAddressFields,
+  lastPaymentAt: nullable(string),
+});
+
+export const depositAddressCreatedSchema: Schema<DepositAddressCreated> =
+  object(depositAddressFields);
+
+export const depositAddressListSchema: Schema<DepositAddressListResponse> = object({
+  addresses: array(depositAddressSchema),
+  pagination: paginationSchema,
+});
+
+export const depositSchema: Schema<Deposit> = object({
+  id: string,
+  depositAddressId: string,
+  txHash: string,
+  amount: string,
+  netAmount: string,
+  feeAmount: string,
+  feePercent: string,
+  status: oneOf('PENDING', 'CONFIRMED', 'SWEPT', 'FAILED'),
+  confirmations: number,
+  asset: object({ symbol: string, name: string }),
+  network: object({ code: string, name: string }),
+  createdAt: string,
+  confirmedAt: nullable(string),
+});
+
+export const depositListSchema: Schema<DepositListResponse> = object({
+  deposits: array(depositSchema),
+  pagination: object({ nextCursor: nullable(string), hasMore: boolean }),
+});
+
+export const assetSchema: Schema<Asset> = object({
+  symbol: string,
+  name: string,
+  iconUrl: nullable(string),
+  networks: array(object({ code: string, name: string })),
+});
+
+export const assetListSchema: Schema<AssetListResponse> = object({
+  assets: array(assetSchema),
+});
+
+export const invoiceWebhookPayloadSchema: Schema<InvoiceWebhookPayload> = object({
+  event: oneOf('invoice'),
+  invoiceId: string,
+  orderId: nullable(string),
+  status: oneOf('PAID', 'UNDERPAID', 'OVERPAID', 'PARTIAL', 'EXPIRED'),
+  depositAddress: string,
+  senderAddress: nullable(string),
+  txHash: string,
+  amountReceived: number,
+  amountExpected: nullable(number),
+  cryptoSymbol: nullable(string),
+  network: nullable(string),
+  networkName: nullable(string),
+  amountFiat: number,
+  fiatCurrency: string,
+  timestamp: string,
+});
+
+export const depositWebhookPayloadSchema: Schema<DepositWebhookPayload> = object({
+  event: oneOf('deposit'),
+  status: oneOf('CONFIRMED'),
+  depositAddress: string,
+  externalUserId: nullable(string),
+  senderAddress: nullable(string),
+  txHash: string,
+  amount: number,
+  amountFiat: number,
+  cryptoSymbol: string,
+  network: string,
+  networkName: string,
+  timestamp: string,
+});
+
+export const webhookEventSchema: Schema<WebhookEvent> = discriminated('event', {
+  invoice: invoiceWebhookPayloadSchema,
+  deposit: depositWebhookPayloadSchema,
+});
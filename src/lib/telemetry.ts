@@ -0,0 +1,141 @@
+/**
+ * PayCoinPro OpenTelemetry Instrumentation
+ *
+ * `@opentelemetry/api` is an optional peer dependency. It is loaded on first
+ * use, and every helper here is a no-op when it isn't installed. Spans are
+ * recorded by whatever tracer provider the application registers globally.
+ */
+
+import { createRequire } from 'module';
+import type * as OpenTelemetry from '@opentelemetry/api';
+import { VERSION } from '../version.js';
+import { APIError } from './errors.js';
+
+type OpenTelemetryAPI = typeof OpenTelemetry;
+
+const TRACER_NAME = 'paycoinpro';
+
+let openTelemetry: OpenTelemetryAPI | null | undefined;
+
+/**
+ * `@opentelemetry/api`, or `null` when it isn't installed.
+ */
+function loadOpenTelemetry(): OpenTelemetryAPI | null {
+  if (openTelemetry === undefined) {
+    try {
+      openTelemetry = createRequire(import.meta.url)('@opentelemetry/api') as OpenTelemetryAPI;
+    } catch {
+      openTelemetry = null;
+    }
+  }
+  return openTelemetry;
+}
+
+/**
+ * Client span around one logical API request, retries included.
+ */
+export interface RequestSpan {
+  /** Count an attempt and add W3C trace context (`traceparent`) headers pointing at this span */
+  beginAttempt(headers: Record<string, string>): void;
+  /** Record the HTTP status of the latest attempt */
+  setStatusCode(status: number): void;
+  /** End the span, recording `error` if the request failed */
+  end(error?: unknown): void;
+}
+
+/**
+ * Route template for span names and `url.template`: every other path segment
+ * is an id, e.g. `/invoices/inv_123` becomes `/invoices/{id}`.
+ */
+export function routeTemplate(path: string): string {
+  const segments = path.split('?')[0].split('/').filter(Boolean);
+  return `/${segments.map((segment, index) => (index % 2 === 1 ? '{id}' : segment)).join('/')}`;
+}
+
+/**
+ * Start a span for an API request, or return `undefined` when OpenTelemetry is unavailable.
+ */
+export function startRequestSpan(
+  method: string,
+  path: string,
+  url: string
+): RequestSpan | undefined {
+  const otel = loadOpenTelemetry();
+  if (!otel) {
+    return undefined;
+  }
+
+  const route = routeTemplate(path);
+  const span = otel.trace.getTracer(TRACER_NAME, VERSION).startSpan(`${method} ${route}`, {
+    kind: otel.SpanKind.CLIENT,
+    attributes: {
+      'http.request.method': method,
+      'url.full': url,
+      'url.template': route,
+    },
+  });
+  const spanContext = otel.trace.setSpan(otel.context.active(), span);
+
+  let attempts = 0;
+
+  return {
+    beginAttempt: (headers) => {
+      attempts++;
+      otel.propagation.inject(spanContext, headers);
+    },
+    setStatusCode: (status) => span.setAttribute('http.response.status_code', status),
+    end: (error) => {
+      if (attempts > 1) {
+        span.setAttribute('http.request.resend_count', attempts - 1);
+      }
+      if (error !== undefined) {
+        recordError(otel, span, error);
+      }
+      span.end();
+    },
+  };
+}
+
+/**
+ * Run `fn` inside an internal span named `name`. `describe` adds attributes
+ * from the result.
+ */
+export function traceSync<T>(
+  name: string,
+  fn: () => T,
+  describe?: (result: T) => Record<string, string | number>
+): T {
+  const otel = loadOpenTelemetry();
+  if (!otel) {
+    return fn();
+  }
+
+  const span = otel.trace.getTracer(TRACER_NAME, VERSION).startSpan(name);
+  try {
+    const result = fn();
+    if (describe) {
+      span.setAttributes(describe(result));
+    }
+    return result;
+  } catch (error) {
+    recordError(otel, span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+function recordError(otel: OpenTelemetryAPI, span: OpenTelemetry.Span, error: unknown): void {
+  const name = error instanceof Error ? error.name : 'Error';
+  span.setAttribute('error.type', name);
+  if (error instanceof APIError) {
+    span.setAttribute('paycoinpro.error.code', error.code);
+  }
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({
+    code: otel.SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * PayCoinPro Runtime Validation
+ *
+ * Minimal schema combinators for checking API responses and webhook payloads
+ * at runtime. Schemas are type guards, so each one can be checked against the
+ * generated OpenAPI type it mirrors.
+ */
+
+import { ResponseValidationError } from './errors.js';
+import type { SDKLogger } from './logger.js';
+
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+export interface ValidationIssue {
+  /** JSON pointer to the offending value, e.g. `/invoices/0/status` (`''` is the root) */
+  path: string;
+  message: string;
+}
+
+/**
+ * Type guard that records a `ValidationIssue` for every mismatch under `path`.
+ */
+export type Schema<T> = (value: unknown, path: string, issues: ValidationIssue[]) => value is T;
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** Marks an object property that may be absent */
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<P extends Shape> = {
+  [K in keyof P]: P[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof P];
+
+type ObjectType<P extends Shape> = {
+  [K in Exclude<keyof P, OptionalKeys<P>>]: Infer<P[K]>;
+} & {
+  [K in OptionalKeys<P>]?: Exclude<Infer<P[K]>, undefined>;
+};
+
+/**
+ * Check `value` against `schema`.
+ *
+ * @returns Every issue found, empty when valid
+ */
+export function validate(schema: Schema<unknown>, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  schema(value, '', issues);
+  return issues;
+}
+
+/**
+ * Validate `value` according to `mode`: `'strict'` throws, `'warn'` logs to `logger` and continues.
+ *
+ * @throws ResponseValidationError in strict mode when `value` doesn't match
+ */
+export function checkResponse(
+  mode: ValidationMode,
+  schema: Schema<unknown>,
+  value: unknown,
+  source: string,
+  logger: SDKLogger
+): void {
+  if (mode === 'off') {
+    return;
+  }
+
+  const issues = validate(schema, value);
+  if (issues.length === 0) {
+    return;
+  }
+
+  const error = new ResponseValidationError(source, issues);
+  if (mode === 'strict') {
+    throw error;
+  }
+  logger.warn(error.message, { source, issues });
+}
+
+function fail(issues: ValidationIssue[], path: string, expected: string, value: unknown): false {
+  issues.push({ path, message: `expected ${expected}, got ${describe(value)}` });
+  return false;
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  return typeof value === 'object' ? 'object' : `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Escape a property name for use in a JSON pointer (RFC 6901).
+ */
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+export const string: Schema<string> = (value, path, issues): value is string =>
+  typeof value === 'string' || fail(issues, path, 'string', value);
+
+export const number: Schema<number> = (value, path, issues): value is number =>
+  (typeof value === 'number' && Number.isFinite(value)) || fail(issues, path, 'number', value);
+
+export const boolean: Schema<boolean> = (value, path, issues): value is boolean =>
+  typeof value === 'boolean' || fail(issues, path, 'boolean', value);
+
+export function oneOf<const V extends readonly string[]>(...values: V): Schema<V[number]> {
+  return (value, path, issues): value is V[number] =>
+    values.includes(value as string) ||
+    fail(issues, path, `one of ${values.map((v) => JSON.stringify(v)).join(', ')}`, value);
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path, issues): value is T | null => value === null || schema(value, path, issues);
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  const check = (value: unknown, path: string, issues: ValidationIssue[]): value is T | undefined =>
+    value === undefined || schema(value, path, issues);
+  return Object.assign(check, { optional: true as const });
+}
+
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, path, issues): value is T[] => {
+    if (!Array.isArray(value)) {
+      return fail(issues, path, 'array', value);
+    }
+    let valid = true;
+    value.forEach((item, index) => {
+      valid = schema(item, pointer(path, index), issues) && valid;
+    });
+    return valid;
+  };
+}
+
+/**
+ * Plain object with any keys, e.g. free-form `metadata`.
+ */
+export const record: Schema<{ [key: string]: unknown }> = (
+  value,
+  path,
+  issues
+): value is { [key: string]: unknown } =>
+  (typeof value === 'object' && value !== null && !Array.isArray(value)) ||
+  fail(issues, path, 'object', value);
+
+/**
+ * Object with the given properties. Unknown properties are allowed, so new
+ * API fields don't break older SDK versions.
+ */
+export function object<P extends Shape>(shape: P): Schema<ObjectType<P>> {
+  return (value, path, issues): value is ObjectType<P> => {
+    if (!record(value, path, issues)) {
+      return false;
+    }
+    let valid = true;
+    for (const [key, schema] of Object.entries(shape)) {
+      if (!(key in value) && !('optional' in schema)) {
+        issues.push({ path: pointer(path, key), message: 'required property is missing' });
+        valid = false;
+        continue;
+      }
+      valid = schema(value[key], pointer(path, key), issues) && valid;
+    }
+    return valid;
+  };
+}
+
+/**
+ * Union discriminated on `key`, e.g. webhook events on `event`.
+ */
+export function discriminated<K extends string, M extends Record<string, Schema<unknown>>>(
+  key: K,
+  variants: M
+): Schema<Infer<M[keyof M]>> {
+  return (value, path, issues): value is Infer<M[keyof M]> => {
+    if (!record(value, path, issues)) {
+      return false;
+    }
+    const tag = value[key];
+    const variant = typeof tag === 'string' ? variants[tag] : undefined;
+    if (!variant) {
+      return fail(
+        issues,
+        pointer(path, key),
+        `one of ${Object.keys(variants)
+          .map((v) => JSON.stringify(v))
+          .join(', ')}`,
+        tag
+      );
+    }
+    return variant(value, path, issues);
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * PayCoinPro Webhook Deduplication Stores
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import type { WebhookEvent } from '../resources/webhooks.js';
+
+/**
+ * Remembers which webhook deliveries were already processed.
+ * Implement this on top of Redis, a database, etc. for multi-process deployments.
+ */
+export interface WebhookDedupStore {
+  /** Record `key` and return whether it had been recorded before */
+  seen(key: string): boolean | Promise<boolean>;
+  /** Forget `key`, e.g. when processing failed and the delivery should be accepted again */
+  delete?(key: string): void | Promise<void>;
+}
+
+export interface MemoryDedupStoreOptions {
+  /** Maximum number of keys kept before the least recently seen are evicted (default: 10000) */
+  maxSize?: number;
+}
+
+export interface FileDedupStoreOptions extends MemoryDedupStoreOptions {
+  /** Path of the JSON file holding seen keys */
+  path: string;
+}
+
+/**
+ * Deduplication key for a delivery: event, invoice id (or deposit address), status and txHash.
+ */
+export function webhookDedupKey(event: WebhookEvent): string {
+  const id = event.event === 'invoice' ? event.invoiceId : event.depositAddress;
+  return [event.event, id, event.status, event.txHash].join(':');
+}
+
+/**
+ * In-memory LRU store. Keys do not survive a restart.
+ */
+export class MemoryDedupStore implements WebhookDedupStore {
+  protected readonly keys = new Map<string, true>();
+  protected readonly maxSize: number;
+
+  constructor(options?: MemoryDedupStoreOptions) {
+    this.maxSize = options?.maxSize ?? 10000;
+  }
+
+  seen(key: string): boolean {
+    const exists = this.keys.delete(key);
+    // Re-insert so Map order tracks recency
+    this.keys.set(key, true);
+
+    if (this.keys.size > this.maxSize) {
+      const oldest = this.keys.keys().next().value;
+      if (oldest !== undefined) {
+        this.keys.delete(oldest);
+      }
+    }
+
+    return exists;
+  }
+
+  delete(key: string): void {
+    this.keys.delete(key);
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+}
+
+/**
+ * LRU store persisted to a JSON file, for single-process deployments
+ * that need deduplication across restarts.
+ *
+ * Every `seen` and `delete` rewrites the whole file (asynchronously, through a
+ * temporary file and a rename), so keep `maxSize` modest or use a database-backed
+ * store for high webhook volumes.
+ */
+export class FileDedupStore implements WebhookDedupStore {
+  private readonly path: string;
+  private readonly memory: LoadedDedupStore;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @throws Error if the file exists but doesn't hold a JSON array of keys
+   */
+  constructor(options: FileDedupStoreOptions) {
+    this.path = options.path;
+    this.memory = new LoadedDedupStore(options, readKeys(this.path));
+  }
+
+  async seen(key: string): Promise<boolean> {
+    const exists = this.memory.seen(key);
+    await this.persist();
+    return exists;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+    await this.persist();
+  }
+
+  get size(): number {
+    return this.memory.size;
+  }
+
+  private persist(): Promise<void> {
+    // Chain writes so they can't interleave on the temporary file
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        // Write then rename so a crash never leaves a truncated file
+        const tmp = `${this.path}.tmp`;
+        await writeFile(tmp, JSON.stringify(this.memory.toArray()));
+        await rename(tmp, this.path);
+      });
+    return this.writing;
+  }
+}
+
+/** Memory store seeded with persisted keys, oldest first */
+class LoadedDedupStore extends MemoryDedupStore {
+  constructor(options: MemoryDedupStoreOptions, keys: string[]) {
+    super(options);
+    for (const key of keys.slice(-this.maxSize)) {
+      this.keys.set(key, true);
+    }
+  }
+
+  /** Keys from least to most recently seen */
+  toArray(): string[] {
+    return [...this.keys.keys()];
+  }
+}
+
+function readKeys(path: string): string[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  let keys: unknown;
+  try {
+    keys = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read webhook dedup store ${path}: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(keys) || !keys.every((key) => typeof key === 'string')) {
+    throw new Error(`Webhook dedup store ${path} must contain a JSON array of keys`);
+  }
+  return keys;
+}
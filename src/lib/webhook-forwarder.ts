@@ -0,0 +1,251 @@
+/**
+ * Replay captured or example webhooks against a local handler
+ */
+
+import { RequestAbortedError, ValidationError } from './errors.js';
+import { arrayElementSources } from './json.js';
+import { sleep } from './retry.js';
+import { object, string, validate } from './validation.js';
+import { Webhooks } from '../resources/webhooks.js';
+import type { WebhookEvent } from '../resources/webhooks.js';
+import type { DepositWebhookPayload, InvoiceWebhookPayload } from '../types/index.js';
+
+export type WebhookEventStatus = InvoiceWebhookPayload['status'] | DepositWebhookPayload['status'];
+
+type ExampleEvent<S extends WebhookEventStatus> = S extends DepositWebhookPayload['status']
+  ? DepositWebhookPayload
+  : InvoiceWebhookPayload;
+
+/** Every status a webhook can carry, in the order an invoice usually reaches them */
+export const WEBHOOK_EVENT_STATUSES: readonly WebhookEventStatus[] = [
+  'PARTIAL',
+  'PAID',
+  'OVERPAID',
+  'UNDERPAID',
+  'EXPIRED',
+  'CONFIRMED',
+];
+
+// Values from the `@example` annotations of the webhook payload schemas
+const INVOICE_EXAMPLE: Omit<InvoiceWebhookPayload, 'status' | 'amountReceived' | 'timestamp'> = {
+  event: 'invoice',
+  invoiceId: 'clx1abc123def456',
+  orderId: 'ORD-12345',
+  depositAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f8fE00',
+  senderAddress: '0x9876543210fedcba9876543210fedcba98765432',
+  txHash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+  amountExpected: 100,
+  cryptoSymbol: 'USDT',
+  network: 'BSC',
+  networkName: 'BNB Smart Chain',
+  amountFiat: 99.99,
+  fiatCurrency: 'USD',
+};
+
+const DEPOSIT_EXAMPLE: Omit<DepositWebhookPayload, 'timestamp'> = {
+  event: 'deposit',
+  status: 'CONFIRMED',
+  depositAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f8fE00',
+  externalUserId: 'user_123',
+  senderAddress: '0x9876543210fedcba9876543210fedcba98765432',
+  txHash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+  amount: 100.5,
+  amountFiat: 100.5,
+  cryptoSymbol: 'USDT',
+  network: 'BSC',
+  networkName: 'BNB Smart Chain',
+};
+
+/** `amountReceived` that fits each invoice status, for an expected amount of 100 */
+const AMOUNTS_RECEIVED: Record<InvoiceWebhookPayload['status'], number> = {
+  PARTIAL: 40,
+  PAID: 100,
+  OVERPAID: 100.5,
+  UNDERPAID: 95,
+  EXPIRED: 0,
+};
+
+/**
+ * Build an example webhook payload for `status` from the API schema examples.
+ * `CONFIRMED` gives a deposit event; every other status an invoice event.
+ *
+ * @example
+ * ```typescript
+ * const paid = exampleWebhookEvent('PAID', { invoiceId: invoice.id, orderId: 'order_7' });
+ * ```
+ */
+export function exampleWebhookEvent<S extends WebhookEventStatus>(
+  status: S,
+  overrides: Partial<Omit<ExampleEvent<S>, 'event' | 'status'>> = {}
+): ExampleEvent<S> {
+  const timestamp = new Date().toISOString();
+  if (status === 'CONFIRMED') {
+    return { ...DEPOSIT_EXAMPLE, timestamp, ...overrides } as ExampleEvent<S>;
+  }
+
+  const invoiceStatus = status as InvoiceWebhookPayload['status'];
+  if (!(invoiceStatus in AMOUNTS_RECEIVED)) {
+    throw new Error(
+      `Unknown webhook status "${status}", expected one of ${WEBHOOK_EVENT_STATUSES.join(', ')}`
+    );
+  }
+  return {
+    ...INVOICE_EXAMPLE,
+    status: invoiceStatus,
+    amountReceived: AMOUNTS_RECEIVED[invoiceStatus],
+    timestamp,
+    ...overrides,
+  } as ExampleEvent<S>;
+}
+
+/**
+ * One example payload per status in `WEBHOOK_EVENT_STATUSES`.
+ */
+export function exampleWebhookEvents(): WebhookEvent[] {
+  return WEBHOOK_EVENT_STATUSES.map((status) => exampleWebhookEvent(status));
+}
+
+// Only the event type is checked, so captures with newer fields or statuses still replay
+const storedPayloadSchema = object({ event: string });
+
+/**
+ * Split a stored webhook body, one payload or an array of payloads to send in
+ * order, into the exact text of each payload. Sending that text keeps amounts
+ * with more digits than a JavaScript number holds.
+ *
+ * @throws SyntaxError if `json` isn't JSON
+ * @throws ValidationError if a payload isn't an object with an `event` type
+ */
+export function parseWebhookPayloads(json: string): string[] {
+  const parsed: unknown = JSON.parse(json);
+  const payloads = Array.isArray(parsed) ? parsed : [parsed];
+
+  const issues = payloads.flatMap((payload, index) =>
+    validate(storedPayloadSchema, payload).map((issue) => ({
+      ...issue,
+      path: Array.isArray(parsed) ? `/${index}${issue.path}` : issue.path,
+    }))
+  );
+  if (issues.length > 0) {
+    throw new ValidationError('webhook payload', issues);
+  }
+  return Array.isArray(parsed) ? arrayElementSources(json) : [json];
+}
+
+export interface WebhookForwarderOptions {
+  /** Your webhook handler, e.g. `http://localhost:3000/webhooks` */
+  url: string;
+  /** Secret the handler verifies with; several sign with each, as during rotation */
+  secret: string | string[];
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+export interface SendSequenceOptions {
+  /** Pause between deliveries in milliseconds (default: 0) */
+  delayMs?: number;
+  /** Stops the sequence; rejects with `RequestAbortedError` */
+  signal?: AbortSignal;
+  /** Called after each delivery, e.g. to print progress */
+  onDelivery?: (delivery: WebhookDelivery) => void;
+}
+
+export interface WebhookDelivery {
+  /** The body that was sent, parsed */
+  payload: WebhookEvent;
+  /** The body that was signed and sent */
+  body: string;
+  /** X-Webhook-Signature header that was sent */
+  signature: string;
+  /** HTTP status returned by the handler */
+  status: number;
+  /** Response body returned by the handler */
+  responseBody: string;
+  durationMs: number;
+}
+
+/**
+ * Sign webhook payloads with a fresh timestamp and POST them to a handler,
+ * the way PayCoinPro delivers them.
+ *
+ * @example
+ * ```typescript
+ * const forwarder = new WebhookForwarder({
+ *   url: 'http://localhost:3000/webhooks',
+ *   secret: process.env.WEBHOOK_SECRET,
+ * });
+ *
+ * // Replay a captured delivery
+ * await forwarder.send(parseWebhookPayloads(readFileSync('paid.json', 'utf8'))[0]);
+ *
+ * // Check the handler copes with out-of-order events
+ * await forwarder.sendSequence(
+ *   [exampleWebhookEvent('PAID'), exampleWebhookEvent('PARTIAL')],
+ *   { delayMs: 500 }
+ * );
+ * ```
+ */
+export class WebhookForwarder {
+  private readonly webhooks = new Webhooks();
+
+  constructor(private readonly options: WebhookForwarderOptions) {}
+
+  /**
+   * Sign and POST one payload. Text, e.g. from `parseWebhookPayloads`, is sent unchanged.
+   *
+   * @returns The delivery, whatever status the handler responded with
+   * @throws Error if the handler can't be reached
+   */
+  async send(payload: WebhookEvent | string): Promise<WebhookDelivery> {
+    const { url, secret } = this.options;
+    const fetchFn = this.options.fetch ?? fetch;
+    const body = typeof payload === 'string' ? payload : JSON.stringify(payload);
+    const signature = this.webhooks.sign(body, secret);
+    const startedAt = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetchFn(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Signature': signature,
+        },
+        body,
+      });
+    } catch (error) {
+      throw new Error(`Could not deliver webhook to ${url}: ${(error as Error).message}`);
+    }
+
+    return {
+      payload: typeof payload === 'string' ? (JSON.parse(payload) as WebhookEvent) : payload,
+      body,
+      signature,
+      status: response.status,
+      responseBody: await response.text(),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * Send payloads one after another, waiting `delayMs` between them.
+   */
+  async sendSequence(
+    payloads: Array<WebhookEvent | string>,
+    options: SendSequenceOptions = {}
+  ): Promise<WebhookDelivery[]> {
+    const deliveries: WebhookDelivery[] = [];
+    for (const [index, payload] of payloads.entries()) {
+      if (index > 0 && options.delayMs) {
+        await sleep(options.delayMs, options.signal);
+      }
+      if (options.signal?.aborted) {
+        throw new RequestAbortedError();
+      }
+      const delivery = await this.send(payload);
+      deliveries.push(delivery);
+      options.onDelivery?.(delivery);
+    }
+    return deliveries;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * PayCoinPro Webhook Router
+ */
+
+import type { WebhookEvent } from '../resources/webhooks.js';
+import type {
+  DepositWebhookPayload,
+  ExactWebhookEvent,
+  InvoiceWebhookPayload,
+} from '../types/index.js';
+
+type InvoiceStatus = InvoiceWebhookPayload['status'];
+type DepositStatus = DepositWebhookPayload['status'];
+
+/**
+ * Routing key: `'*'`, an event name (`'invoice'`), or an event and status (`'invoice.PAID'`).
+ */
+export type WebhookEventType =
+  | '*'
+  | 'invoice'
+  | `invoice.${InvoiceStatus}`
+  | 'deposit'
+  | `deposit.${DepositStatus}`;
+
+type RoutableEvent = WebhookEvent | ExactWebhookEvent;
+
+/**
+ * Event type delivered to handlers registered for routing key `K`.
+ */
+export type WebhookEventFor<
+  K extends WebhookEventType,
+  TEvent extends RoutableEvent = WebhookEvent,
+> = K extends `${infer N}.${infer S}`
+  ? Extract<TEvent, { event: N }> & { status: S }
+  : K extends '*'
+    ? TEvent
+    : Extract<TEvent, { event: K }>;
+
+export type WebhookHandler<
+  K extends WebhookEventType = '*',
+  TEvent extends RoutableEvent = WebhookEvent,
+> = (event: WebhookEventFor<K, TEvent>) => void | Promise<void>;
+
+/**
+ * Verifies webhook requests and dispatches them to handlers by event and status.
+ *
+ * Handlers run sequentially, most specific first: `'invoice.PAID'`, then
+ * `'invoice'`, then `'*'`.
+ */
+export class WebhookRouter<TEvent extends RoutableEvent = WebhookEvent> {
+  private readonly handlers = new Map<WebhookEventType, Array<(event: TEvent) => unknown>>();
+
+  constructor(
+    private readonly webhooks: {
+      verify(
+        rawBody: string,
+        signatureHeader: string,
+        secret: string | string[],
+        toleranceSeconds?: number
+      ): TEvent;
+    }
+  ) {}
+
+  on<K extends WebhookEventType>(type: K, handler: WebhookHandler<K, TEvent>): this {
+    const handlers = this.handlers.get(type) ?? [];
+    handlers.push(handler as (event: TEvent) => unknown);
+    this.handlers.set(type, handlers);
+    return this;
+  }
+
+  /**
+   * Verify a webhook request and dispatch it to matching handlers.
+   *
+   * @returns The verified event
+   * @throws WebhookVerificationError if verification fails
+   */
+  async handle(
+    rawBody: string,
+    signatureHeader: string,
+    secret: string | string[],
+    toleranceSeconds?: number
+  ): Promise<TEvent> {
+    const event = this.webhooks.verify(rawBody, signatureHeader, secret, toleranceSeconds);
+    await this.dispatch(event);
+    return event;
+  }
+
+  /**
+   * Dispatch an already verified event.
+   *
+   * @returns Number of handlers invoked
+   */
+  async dispatch(event: TEvent): Promise<number> {
+    const keys: WebhookEventType[] = [
+      `${event.event}.${event.status}` as WebhookEventType,
+      event.event,
+      '*',
+    ];
+    let count = 0;
+
+    for (const key of keys) {
+      for (const handler of this.handlers.get(key) ?? []) {
+        await handler(event);
+        count++;
+      }
+    }
+
+    return count;
+  }
+}
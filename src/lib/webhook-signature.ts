@@ -0,0 +1,133 @@
+/**
+ * Runtime-neutral webhook signature helpers.
+ *
+ * Shared by the Node.js (`Webhooks`) and Web Crypto (`paycoinpro/edge`)
+ * implementations, so this module must not import Node built-ins.
+ */
+
+import type { DepositWebhookPayload, InvoiceWebhookPayload } from '../types/index.js';
+import { parseJSON } from './json.js';
+
+export const DEFAULT_TOLERANCE = 300; // 5 minutes
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+/**
+ * Verified webhook event, discriminated on `event`.
+ * Checking `event.event === 'invoice'` narrows to `InvoiceWebhookPayload`.
+ */
+export type WebhookEvent = InvoiceWebhookPayload | DepositWebhookPayload;
+
+export interface VerifiedWebhook<TEvent = WebhookEvent> {
+  event: TEvent;
+  /** Signature timestamp (Unix seconds) */
+  timestamp: number;
+  /** Index of the secret that matched, when several secrets were given */
+  secretIndex: number;
+}
+
+export interface SignatureCheck {
+  timestamp: number;
+  /** Every v1 signature from the header */
+  signatures: string[];
+  secrets: string[];
+  /** `{timestamp}.{rawBody}`, the string the signatures cover */
+  signedPayload: string;
+}
+
+/**
+ * Parse Stripe-style signature header
+ * Format: t={timestamp},v1={signature}[,v1={signature}...]
+ */
+export function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } {
+  const parts = header.split(',');
+  let timestamp = 0;
+  const signatures: string[] = [];
+
+  for (const part of parts) {
+    const [key, value] = part.trim().split('=');
+    if (key === 't') {
+      timestamp = parseInt(value, 10);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (!timestamp || signatures.length === 0) {
+    throw new WebhookVerificationError(
+      'Invalid signature header format. Expected: t={timestamp},v1={signature}'
+    );
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Validate inputs, parse the header and enforce timestamp tolerance.
+ * Everything up to the HMAC comparison, which each runtime does itself.
+ */
+export function prepareSignatureCheck(
+  rawBody: string,
+  signatureHeader: string,
+  secret: string | string[],
+  toleranceSeconds?: number
+): SignatureCheck {
+  if (!signatureHeader) {
+    throw new WebhookVerificationError('Missing webhook signature header');
+  }
+
+  const secrets = Array.isArray(secret) ? secret : [secret];
+  if (secrets.length === 0 || secrets.some((s) => !s)) {
+    throw new WebhookVerificationError('Missing webhook secret');
+  }
+
+  if (typeof rawBody !== 'string') {
+    throw new WebhookVerificationError(
+      'Raw body must be a string. Do not pass parsed JSON object.'
+    );
+  }
+
+  // Parse the signature header
+  const { timestamp, signatures } = parseSignatureHeader(signatureHeader);
+
+  // Replay protection - check timestamp tolerance
+  const tolerance = toleranceSeconds ?? DEFAULT_TOLERANCE;
+  const now = Math.floor(Date.now() / 1000);
+  const age = now - timestamp;
+
+  if (age > tolerance) {
+    throw new WebhookVerificationError(
+      `Webhook timestamp too old. Age: ${age}s, Tolerance: ${tolerance}s`
+    );
+  }
+
+  if (age < -tolerance) {
+    throw new WebhookVerificationError(`Webhook timestamp is in the future. Check server clock.`);
+  }
+
+  return { timestamp, signatures, secrets, signedPayload: `${timestamp}.${rawBody}` };
+}
+
+/**
+ * Parse a verified body into an event, keeping the source text of amounts
+ * for `toExactWebhookEvent`.
+ */
+export function parseWebhookEvent(rawBody: string): WebhookEvent {
+  try {
+    return parseJSON(rawBody) as WebhookEvent;
+  } catch {
+    throw new WebhookVerificationError('Invalid JSON in webhook body');
+  }
+}
+
+/**
+ * Build the signature header value from a timestamp and hex signatures.
+ */
+export function formatSignatureHeader(timestamp: number, signatures: string[]): string {
+  return [`t=${timestamp}`, ...signatures.map((signature) => `v1=${signature}`)].join(',');
+}
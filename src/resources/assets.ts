@@ -1,10 +1,12 @@
 import type { APIClient } from '../lib/api.js';
-import type { AssetListResponse } from '../types/index.js';
+import type { APIPromise } from '../lib/api-promise.js';
+import { assetListSchema } from '../lib/schemas.js';
+import type { AssetListResponse, RequestOptions } from '../types/index.js';
 
 export class Assets {
   constructor(private readonly client: APIClient) {}
 
-  async list(): Promise<AssetListResponse> {
-    return this.client.get<AssetListResponse>('/assets');
+  list(options?: RequestOptions): APIPromise<AssetListResponse> {
+    return this.client.get('/assets', undefined, options, assetListSchema);
   }
 }
@@ -1,24 +1,104 @@
 import type { APIClient } from '../lib/api.js';
+import { APIPromise } from '../lib/api-promise.js';
+import type { AssetCatalog } from '../lib/asset-catalog.js';
+import { toExactDepositAddress, toExactDepositAddressList, withAmounts } from '../lib/money.js';
+import { paginateOffset } from '../lib/pagination.js';
+import { assertValidParams, validateDepositAddressParams } from '../lib/request-validation.js';
+import { depositAddressCreatedSchema, depositAddressListSchema } from '../lib/schemas.js';
+import type { Paginator } from '../lib/pagination.js';
 import type {
+  Amounts,
+  DepositAddress,
   DepositAddressCreated,
   CreateDepositAddressRequest,
   DepositAddressListResponse,
+  ExactDepositAddress,
+  ExactDepositAddressCreated,
+  ExactDepositAddressListResponse,
+  RequestOptions,
   paths,
 } from '../types/index.js';
 
 type DepositAddressListParams = paths['/api/v1/deposit-addresses']['get']['parameters']['query'];
 
-export class DepositAddresses {
-  constructor(private readonly client: APIClient) {}
+export class DepositAddresses<E extends boolean = false> {
+  constructor(
+    private readonly client: APIClient,
+    private readonly cryptoAmounts: boolean = false,
+    private readonly catalog?: AssetCatalog
+  ) {}
 
-  async create(params: CreateDepositAddressRequest): Promise<DepositAddressCreated> {
-    return this.client.post<DepositAddressCreated>('/deposit-addresses', params);
+  /**
+   * @throws ValidationError if `params` break documented constraints (unless `validateRequests: false`),
+   * or name an unsupported asset or network (with `validateAssets: true`)
+   */
+  create(
+    params: CreateDepositAddressRequest,
+    options?: RequestOptions
+  ): APIPromise<Amounts<E, DepositAddressCreated, ExactDepositAddressCreated>> {
+    return APIPromise.from(async () => {
+      if (this.client.validateRequests) {
+        assertValidParams(validateDepositAddressParams(params), 'deposit address parameters');
+      }
+      if (this.catalog) {
+        const issues = await this.catalog.check(params, { signal: options?.signal });
+        assertValidParams(issues, 'deposit address parameters');
+      }
+      return this.client
+        .post('/deposit-addresses', params, options, depositAddressCreatedSchema)
+        .withResponse();
+    }).map((address) =>
+      withAmounts<E, DepositAddressCreated, ExactDepositAddressCreated>(
+        this.cryptoAmounts,
+        address,
+        toExactDepositAddress
+      )
+    );
+  }
+
+  list(
+    params?: DepositAddressListParams,
+    options?: RequestOptions
+  ): APIPromise<Amounts<E, DepositAddressListResponse, ExactDepositAddressListResponse>> {
+    return this.fetchList(params, options).map((response) =>
+      withAmounts<E, DepositAddressListResponse, ExactDepositAddressListResponse>(
+        this.cryptoAmounts,
+        response,
+        toExactDepositAddressList
+      )
+    );
+  }
+
+  /**
+   * Iterate over all deposit addresses matching `params`, fetching pages as needed.
+   */
+  listAll(
+    params?: DepositAddressListParams,
+    options?: RequestOptions
+  ): Paginator<Amounts<E, DepositAddress, ExactDepositAddress>, number> {
+    return paginateOffset(
+      (offset) => this.fetchList({ ...params, offset }, options),
+      (response) =>
+        response.addresses.map((address) =>
+          withAmounts<E, DepositAddress, ExactDepositAddress>(
+            this.cryptoAmounts,
+            address,
+            toExactDepositAddress
+          )
+        ),
+      params?.offset ?? 0
+    );
   }
 
-  async list(params?: DepositAddressListParams): Promise<DepositAddressListResponse> {
-    return this.client.get<DepositAddressListResponse>(
+  private fetchList(
+    params?: DepositAddressListParams,
+    options?: RequestOptions
+  ): APIPromise<DepositAddressListResponse> {
+    return this.client.get(
       '/deposit-addresses',
-      params as Record<string, unknown>
+      params as Record<string, unknown>,
+      options,
+      depositAddressListSchema
     );
   }
 }
@@ -1,12 +1,66 @@
 import type { APIClient } from '../lib/api.js';
-import type { DepositListResponse, paths } from '../types/index.js';
+import type { APIPromise } from '../lib/api-promise.js';
+import { toExactDeposit, toExactDepositList, withAmounts } from '../lib/money.js';
+import { paginateOffset } from '../lib/pagination.js';
+import { depositListSchema } from '../lib/schemas.js';
+import type { Paginator } from '../lib/pagination.js';
+import type {
+  Amounts,
+  Deposit,
+  DepositListResponse,
+  ExactDeposit,
+  ExactDepositListResponse,
+  RequestOptions,
+  paths,
+} from '../types/index.js';
 
-type DepositListParams = paths['/api/v1/deposits']['get']['parameters']['query'];
+type DepositListParams = NonNullable<paths['/api/v1/deposits']['get']['parameters']['query']>;
 
-export class Deposits {
-  constructor(private readonly client: APIClient) {}
+export class Deposits<E extends boolean = false> {
+  constructor(
+    private readonly client: APIClient,
+    private readonly cryptoAmounts: boolean = false
+  ) {}
 
-  async list(params?: DepositListParams): Promise<DepositListResponse> {
-    return this.client.get<DepositListResponse>('/deposits', params as Record<string, unknown>);
+  list(
+    params?: DepositListParams,
+    options?: RequestOptions
+  ): APIPromise<Amounts<E, DepositListResponse, ExactDepositListResponse>> {
+    return this.fetchList(params, options).map((response) =>
+      withAmounts<E, DepositListResponse, ExactDepositListResponse>(
+        this.cryptoAmounts,
+        response,
+        toExactDepositList
+      )
+    );
+  }
+
+  /**
+   * Iterate over all deposits matching `params`, advancing `offset` between pages.
+   */
+  listAll(
+    params?: DepositListParams,
+    options?: RequestOptions
+  ): Paginator<Amounts<E, Deposit, ExactDeposit>, number> {
+    return paginateOffset(
+      (offset) => this.fetchList({ ...params, offset }, options),
+      (response) =>
+        response.deposits.map((deposit) =>
+          withAmounts<E, Deposit, ExactDeposit>(this.cryptoAmounts, deposit, toExactDeposit)
+        ),
+      params?.offset ?? 0
+    );
+  }
+
+  private fetchList(
+    params?: DepositListParams,
+    options?: RequestOptions
+  ): APIPromise<DepositListResponse> {
+    return this.client.get(
+      '/deposits',
+      params as Record<string, unknown>,
+      options,
+      depositListSchema
+    );
   }
 }
@@ -1,26 +1,218 @@
 import type { APIClient } from '../lib/api.js';
+import { APIPromise } from '../lib/api-promise.js';
+import type { AssetCatalog } from '../lib/asset-catalog.js';
+import {
+  InvoiceExpiredError,
+  InvoiceTerminalStatusError,
+  PayCoinProError,
+  WaitTimeoutError,
+} from '../lib/errors.js';
+import { toExactInvoice, toExactInvoiceList, withAmounts } from '../lib/money.js';
+import { paginateOffset } from '../lib/pagination.js';
+import type { Paginator } from '../lib/pagination.js';
+import { assertValidParams, validateInvoiceParams } from '../lib/request-validation.js';
+import { sleep } from '../lib/retry.js';
+import { invoiceCreatedSchema, invoiceListSchema, invoiceSchema } from '../lib/schemas.js';
 import type {
+  Amounts,
+  ExactInvoice,
+  ExactInvoiceListResponse,
   Invoice,
   InvoiceCreated,
   CreateInvoiceRequest,
   InvoiceListResponse,
+  InvoiceStatus,
+  RequestOptions,
   paths,
 } from '../types/index.js';
 
 type InvoiceListParams = paths['/api/v1/invoices']['get']['parameters']['query'];
 
-export class Invoices {
-  constructor(private readonly client: APIClient) {}
+/** Statuses an invoice never leaves */
+const TERMINAL_STATUSES: ReadonlySet<InvoiceStatus> = new Set([
+  'PAID',
+  'OVERPAID',
+  'UNDERPAID',
+  'EXPIRED',
+]);
 
-  async create(params: CreateInvoiceRequest): Promise<InvoiceCreated> {
-    return this.client.post<InvoiceCreated>('/invoices', params);
+export interface WaitForStatusOptions<TInvoice = Invoice> {
+  /** Statuses that resolve the wait (default: ['PAID', 'OVERPAID']) */
+  until?: InvoiceStatus[];
+  /** Give up after this many ms (default: 900000, 15 minutes) */
+  timeoutMs?: number;
+  /** Initial delay between polls in ms (default: 2000) */
+  intervalMs?: number;
+  /** Upper bound for the delay between polls in ms (default: 30000) */
+  maxIntervalMs?: number;
+  /** Stop waiting when aborted */
+  signal?: AbortSignal;
+  /** Called whenever `amountReceived` or `status` changes */
+  onProgress?: (invoice: TInvoice, previous: TInvoice) => void;
+}
+
+export class Invoices<E extends boolean = false> {
+  constructor(
+    private readonly client: APIClient,
+    private readonly cryptoAmounts: boolean = false,
+    private readonly catalog?: AssetCatalog
+  ) {}
+
+  /**
+   * @throws ValidationError if `params` break documented constraints (unless `validateRequests: false`),
+   * or name an unsupported asset or network (with `validateAssets: true`)
+   */
+  create(params: CreateInvoiceRequest, options?: RequestOptions): APIPromise<InvoiceCreated> {
+    return APIPromise.from(async () => {
+      if (this.client.validateRequests) {
+        assertValidParams(validateInvoiceParams(params), 'invoice parameters');
+      }
+      if (this.catalog) {
+        // Only the signal applies to the asset lookup, not the POST's idempotency key or headers
+        const issues = await this.catalog.check(params, { signal: options?.signal });
+        assertValidParams(issues, 'invoice parameters');
+      }
+      return this.client.post('/invoices', params, options, invoiceCreatedSchema).withResponse();
+    });
+  }
+
+  retrieve(id: string, options?: RequestOptions): APIPromise<Amounts<E, Invoice, ExactInvoice>> {
+    return this.fetchInvoice(id, options).map((invoice) =>
+      withAmounts<E, Invoice, ExactInvoice>(this.cryptoAmounts, invoice, toExactInvoice)
+    );
+  }
+
+  list(
+    params?: InvoiceListParams,
+    options?: RequestOptions
+  ): APIPromise<Amounts<E, InvoiceListResponse, ExactInvoiceListResponse>> {
+    return this.fetchList(params, options).map((response) =>
+      withAmounts<E, InvoiceListResponse, ExactInvoiceListResponse>(
+        this.cryptoAmounts,
+        response,
+        toExactInvoiceList
+      )
+    );
+  }
+
+  /**
+   * Iterate over all invoices matching `params`, fetching pages as needed.
+   */
+  listAll(
+    params?: InvoiceListParams,
+    options?: RequestOptions
+  ): Paginator<Amounts<E, Invoice, ExactInvoice>, number> {
+    return paginateOffset(
+      (offset) => this.fetchList({ ...params, offset }, options),
+      (response) =>
+        response.invoices.map((invoice) =>
+          withAmounts<E, Invoice, ExactInvoice>(this.cryptoAmounts, invoice, toExactInvoice)
+        ),
+      params?.offset ?? 0
+    );
+  }
+
+  /**
+   * Poll an invoice until it reaches one of the `until` statuses.
+   *
+   * Polling backs off by 1.5x while nothing changes or a poll fails with a
+   * retryable error (5xx, timeout, connection failure), and returns to
+   * `intervalMs` when a payment arrives. No request runs past `timeoutMs`.
+   * The wait ends early when the invoice reaches a terminal status (PAID,
+   * OVERPAID, UNDERPAID, EXPIRED) not in `until`.
+   *
+   * @throws InvoiceExpiredError if the invoice expires first
+   * @throws InvoiceTerminalStatusError if it reaches another terminal status not in `until`
+   * @throws WaitTimeoutError if `timeoutMs` elapses first
+   * @throws RequestAbortedError if `signal` aborts
+   * @throws PayCoinProError if a poll fails with an error that isn't retryable, or every
+   *   poll failed until `timeoutMs`
+   *
+   * @example
+   * ```typescript
+   * const invoice = await client.invoices.waitForStatus(id, {
+   *   timeoutMs: 10 * 60 * 1000,
+   *   onProgress: (invoice) => console.log(`Received ${invoice.amountReceived}`),
+   * });
+   * ```
+   */
+  async waitForStatus(
+    id: string,
+    options: WaitForStatusOptions<Amounts<E, Invoice, ExactInvoice>> = {}
+  ): Promise<Amounts<E, Invoice, ExactInvoice>> {
+    const exact = (raw: Invoice) =>
+      withAmounts<E, Invoice, ExactInvoice>(this.cryptoAmounts, raw, toExactInvoice);
+    const until = options.until ?? ['PAID', 'OVERPAID'];
+    const timeoutMs = options.timeoutMs ?? 15 * 60 * 1000;
+    const intervalMs = options.intervalMs ?? 2000;
+    const maxIntervalMs = options.maxIntervalMs ?? 30000;
+    const deadline = Date.now() + timeoutMs;
+
+    let invoice: Invoice | undefined;
+    let failure: unknown;
+    let delay = intervalMs;
+
+    for (;;) {
+      let polled: Invoice | undefined;
+      try {
+        polled = await this.fetchInvoice(id, {
+          signal: options.signal,
+          timeout: Math.min(this.client.timeout, deadline - Date.now()),
+        });
+      } catch (error) {
+        // Keep waiting through failures that may pass, like a 503 during a deploy
+        if (!(error instanceof PayCoinProError && error.isRetryable)) {
+          throw error;
+        }
+        failure = error;
+      }
+
+      if (polled) {
+        if (
+          invoice &&
+          (polled.amountReceived !== invoice.amountReceived || polled.status !== invoice.status)
+        ) {
+          options.onProgress?.(exact(polled), exact(invoice));
+          delay = intervalMs;
+        } else if (invoice) {
+          delay = Math.min(delay * 1.5, maxIntervalMs);
+        }
+        invoice = polled;
+
+        if (until.includes(invoice.status)) {
+          return exact(invoice);
+        }
+        if (invoice.status === 'EXPIRED') {
+          throw new InvoiceExpiredError(invoice);
+        }
+        if (TERMINAL_STATUSES.has(invoice.status)) {
+          throw new InvoiceTerminalStatusError(invoice);
+        }
+      } else {
+        delay = Math.min(delay * 1.5, maxIntervalMs);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw invoice ? new WaitTimeoutError(invoice, timeoutMs) : failure;
+      }
+      await sleep(Math.min(delay, remaining), options.signal);
+    }
   }
 
-  async retrieve(id: string): Promise<Invoice> {
-    return this.client.get<Invoice>(`/invoices/${id}`);
+  private fetchList(
+    params?: InvoiceListParams,
+    options?: RequestOptions
+  ): APIPromise<InvoiceListResponse> {
+    return this.client.get(
+      '/invoices',
+      params as Record<string, unknown>,
+      options,
+      invoiceListSchema
+    );
   }
 
-  async list(params?: InvoiceListParams): Promise<InvoiceListResponse> {
-    return this.client.get<InvoiceListResponse>('/invoices', params as Record<string, unknown>);
+  private fetchInvoice(id: string, options?: RequestOptions): APIPromise<Invoice> {
+    return this.client.get(`/invoices/${id}`, undefined, options, invoiceSchema);
   }
 }
@@ -1,47 +1,72 @@
 import { createHmac, timingSafeEqual } from 'crypto';
+import { SDKLogger } from '../lib/logger.js';
+import { toExactWebhookEvent, withAmounts } from '../lib/money.js';
+import { webhookEventSchema } from '../lib/schemas.js';
+import { traceSync } from '../lib/telemetry.js';
+import { checkResponse } from '../lib/validation.js';
+import type { ValidationMode } from '../lib/validation.js';
+import { WebhookRouter } from '../lib/webhook-router.js';
+import { webhookDedupKey } from '../lib/webhook-dedup.js';
+import type { WebhookDedupStore } from '../lib/webhook-dedup.js';
+import type { WebhookEventType, WebhookHandler } from '../lib/webhook-router.js';
+import {
+  WebhookVerificationError,
+  formatSignatureHeader,
+  parseWebhookEvent,
+  prepareSignatureCheck,
+} from '../lib/webhook-signature.js';
+import type { VerifiedWebhook, WebhookEvent } from '../lib/webhook-signature.js';
+import type { Amounts, ExactWebhookEvent } from '../types/index.js';
 
-export class WebhookVerificationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'WebhookVerificationError';
+export { WebhookVerificationError } from '../lib/webhook-signature.js';
+export type { WebhookEvent, VerifiedWebhook } from '../lib/webhook-signature.js';
+
+/**
+ * Thrown by `verifyOnce` when a delivery was already seen and `onDuplicate` is `'reject'`.
+ */
+export class WebhookDuplicateError extends WebhookVerificationError {
+  readonly dedupKey: string;
+
+  constructor(dedupKey: string) {
+    super(`Duplicate webhook delivery: ${dedupKey}`);
+    this.name = 'WebhookDuplicateError';
+    this.dedupKey = dedupKey;
   }
 }
 
-export interface WebhookEvent {
-  event: string;
-  status: string;
-  timestamp: string;
-  [key: string]: unknown;
+export interface VerifyOnceOptions {
+  /** Where seen deliveries are recorded */
+  store: WebhookDedupStore;
+  /** Throw `WebhookDuplicateError` (default) or return with `duplicate: true` */
+  onDuplicate?: 'reject' | 'flag';
+  /** Max webhook age in seconds (default: 300) */
+  toleranceSeconds?: number;
 }
 
-export class Webhooks {
-  private defaultTolerance = 300; // 5 minutes
+export interface VerifiedUniqueWebhook<TEvent = WebhookEvent> extends VerifiedWebhook<TEvent> {
+  /** Key recorded in the store; pass it to `store.delete` if processing fails */
+  dedupKey: string;
+  /** Whether this delivery was seen before (only with `onDuplicate: 'flag'`) */
+  duplicate: boolean;
+}
 
-  /**
-   * Parse Stripe-style signature header
-   * Format: t={timestamp},v1={signature}
-   */
-  private parseHeader(header: string): { timestamp: number; signature: string } {
-    const parts = header.split(',');
-    let timestamp = 0;
-    let signature = '';
-
-    for (const part of parts) {
-      const [key, value] = part.split('=');
-      if (key === 't') {
-        timestamp = parseInt(value, 10);
-      } else if (key === 'v1') {
-        signature = value;
-      }
-    }
+export interface WebhooksOptions {
+  /** Convert crypto amounts in events to `CryptoAmount` (default: false) */
+  cryptoAmounts?: boolean;
+  /** Check verified payloads against the API schema (default: 'off') */
+  validatePayloads?: ValidationMode;
+  /** Record an OpenTelemetry span per verification when available (default: true) */
+  tracing?: boolean;
+  /** Receives verification results and payload validation warnings */
+  logger?: SDKLogger;
+}
 
-    if (!timestamp || !signature) {
-      throw new WebhookVerificationError(
-        'Invalid signature header format. Expected: t={timestamp},v1={signature}'
-      );
-    }
+export class Webhooks<E extends boolean = false> {
+  /** Receives verification results; adapters also report handler errors to it */
+  readonly logger: SDKLogger;
 
-    return { timestamp, signature };
+  constructor(private readonly options: WebhooksOptions = {}) {
+    this.logger = options.logger ?? new SDKLogger();
   }
 
   /**
@@ -67,10 +92,11 @@ export class Webhooks {
    *
    * @param rawBody - Raw request body as STRING (not parsed JSON object)
    * @param signatureHeader - Value of X-Webhook-Signature header
-   * @param secret - Your webhook secret from PayCoinPro dashboard
+   * @param secret - Your webhook secret from PayCoinPro dashboard, or several during rotation
    * @param toleranceSeconds - Max webhook age in seconds (default: 300)
    * @returns Parsed webhook event
    * @throws WebhookVerificationError if verification fails
+   * @throws ResponseValidationError if `validatePayloads` is `'strict'` and the payload doesn't match
    *
    * @example
    * ```typescript
@@ -83,9 +109,9 @@ export class Webhooks {
    *     const event = client.webhooks.verify(rawBody, signature, process.env.WEBHOOK_SECRET);
    *
    *     if (event.event === 'invoice') {
-   *       // Handle invoice event
+   *       // event.invoiceId is available here
    *     } else if (event.event === 'deposit') {
-   *       // Handle deposit event
+   *       // event.externalUserId is available here
    *     }
    *
    *     res.json({ received: true });
@@ -98,71 +124,194 @@ export class Webhooks {
   verify(
     rawBody: string,
     signatureHeader: string,
-    secret: string,
+    secret: string | string[],
     toleranceSeconds?: number
-  ): WebhookEvent {
-    if (!signatureHeader) {
-      throw new WebhookVerificationError('Missing webhook signature header');
-    }
+  ): Amounts<E, WebhookEvent, ExactWebhookEvent> {
+    return this.verifyDetailed(rawBody, signatureHeader, secret, toleranceSeconds).event;
+  }
 
-    if (!secret) {
-      throw new WebhookVerificationError('Missing webhook secret');
-    }
+  /**
+   * Verify like `verify`, and also report which secret matched.
+   *
+   * During secret rotation, pass both secrets and watch `secretIndex` to see
+   * when the old secret stops being used.
+   *
+   * @example
+   * ```typescript
+   * const { event, secretIndex } = client.webhooks.verifyDetailed(rawBody, signature, [
+   *   process.env.WEBHOOK_SECRET,
+   *   process.env.WEBHOOK_SECRET_OLD,
+   * ]);
+   * if (secretIndex === 1) {
+   *   logger.warn('Webhook signed with the old secret');
+   * }
+   * ```
+   */
+  verifyDetailed(
+    rawBody: string,
+    signatureHeader: string,
+    secret: string | string[],
+    toleranceSeconds?: number
+  ): VerifiedWebhook<Amounts<E, WebhookEvent, ExactWebhookEvent>> {
+    const verified = this.verifySignature(rawBody, signatureHeader, secret, toleranceSeconds);
+    return { ...verified, event: this.withAmounts(verified.event) };
+  }
 
-    if (typeof rawBody !== 'string') {
-      throw new WebhookVerificationError(
-        'Raw body must be a string. Do not pass parsed JSON object.'
-      );
+  /**
+   * Check the signature, then parse and validate the event without amount conversion.
+   */
+  private verifySignature(
+    rawBody: string,
+    signatureHeader: string,
+    secret: string | string[],
+    toleranceSeconds?: number
+  ): VerifiedWebhook {
+    const verify = () => {
+      try {
+        const verified = this.checkSignature(rawBody, signatureHeader, secret, toleranceSeconds);
+        this.logger.debug('Verified webhook', {
+          event: verified.event.event,
+          status: verified.event.status,
+          secretIndex: verified.secretIndex,
+        });
+        return verified;
+      } catch (error) {
+        this.logger.info('Webhook verification failed', { error });
+        throw error;
+      }
+    };
+    if (this.options.tracing === false) {
+      return verify();
     }
+    return traceSync('PayCoinPro webhook verify', verify, ({ event, secretIndex }) => ({
+      'paycoinpro.webhook.event': event.event,
+      'paycoinpro.webhook.status': event.status,
+      'paycoinpro.webhook.secret_index': secretIndex,
+    }));
+  }
 
-    // Parse the signature header
-    const { timestamp, signature } = this.parseHeader(signatureHeader);
+  /** `verifySignature` without the span */
+  private checkSignature(
+    rawBody: string,
+    signatureHeader: string,
+    secret: string | string[],
+    toleranceSeconds?: number
+  ): VerifiedWebhook {
+    const { timestamp, signatures, secrets, signedPayload } = prepareSignatureCheck(
+      rawBody,
+      signatureHeader,
+      secret,
+      toleranceSeconds
+    );
 
-    // Replay protection - check timestamp tolerance
-    const tolerance = toleranceSeconds ?? this.defaultTolerance;
-    const now = Math.floor(Date.now() / 1000);
-    const age = now - timestamp;
+    // Check every secret against every v1 signature
+    const secretIndex = secrets.findIndex((candidate) => {
+      const expected = createHmac('sha256', candidate).update(signedPayload).digest('hex');
+      return signatures.some((signature) => this.secureCompare(signature, expected));
+    });
 
-    if (age > tolerance) {
-      throw new WebhookVerificationError(
-        `Webhook timestamp too old. Age: ${age}s, Tolerance: ${tolerance}s`
-      );
+    if (secretIndex === -1) {
+      throw new WebhookVerificationError('Invalid webhook signature');
     }
 
-    if (age < -tolerance) {
-      throw new WebhookVerificationError(`Webhook timestamp is in the future. Check server clock.`);
-    }
+    const event = parseWebhookEvent(rawBody);
+    checkResponse(
+      this.options.validatePayloads ?? 'off',
+      webhookEventSchema,
+      event,
+      'webhook payload',
+      this.logger
+    );
 
-    // Reconstruct the signed payload and compute expected signature
-    const signedPayload = `${timestamp}.${rawBody}`;
-    const expected = createHmac('sha256', secret).update(signedPayload).digest('hex');
+    return { event, timestamp, secretIndex };
+  }
 
-    // Timing-safe comparison
-    if (!this.secureCompare(signature, expected)) {
-      throw new WebhookVerificationError('Invalid webhook signature');
-    }
+  /**
+   * Verify a webhook and record it in a dedup store, so replays and
+   * redeliveries inside the tolerance window are processed only once.
+   *
+   * @throws WebhookDuplicateError if already seen and `onDuplicate` is `'reject'`
+   * @throws WebhookVerificationError if verification fails
+   *
+   * @example
+   * ```typescript
+   * const store = new MemoryDedupStore();
+   *
+   * const { event, dedupKey } = await client.webhooks.verifyOnce(rawBody, signature, secret, {
+   *   store,
+   * });
+   * try {
+   *   await fulfill(event);
+   * } catch (error) {
+   *   await store.delete?.(dedupKey); // accept the redelivery
+   *   throw error;
+   * }
+   * ```
+   */
+  async verifyOnce(
+    rawBody: string,
+    signatureHeader: string,
+    secret: string | string[],
+    options: VerifyOnceOptions
+  ): Promise<VerifiedUniqueWebhook<Amounts<E, WebhookEvent, ExactWebhookEvent>>> {
+    const verified = this.verifySignature(
+      rawBody,
+      signatureHeader,
+      secret,
+      options.toleranceSeconds
+    );
+    const dedupKey = webhookDedupKey(verified.event);
+    const duplicate = await options.store.seen(dedupKey);
 
-    // Parse and return the event
-    try {
-      return JSON.parse(rawBody) as WebhookEvent;
-    } catch {
-      throw new WebhookVerificationError('Invalid JSON in webhook body');
+    if (duplicate && (options.onDuplicate ?? 'reject') === 'reject') {
+      throw new WebhookDuplicateError(dedupKey);
     }
+
+    return { ...verified, event: this.withAmounts(verified.event), dedupKey, duplicate };
+  }
+
+  /**
+   * Register a typed handler and return a `WebhookRouter` for chaining.
+   *
+   * @example
+   * ```typescript
+   * const router = client.webhooks
+   *   .on('invoice.PAID', async (event) => fulfill(event.orderId))
+   *   .on('deposit', async (event) => credit(event.externalUserId, event.amount));
+   *
+   * await router.handle(rawBody, signature, process.env.WEBHOOK_SECRET);
+   * ```
+   */
+  on<K extends WebhookEventType>(
+    type: K,
+    handler: WebhookHandler<K, Amounts<E, WebhookEvent, ExactWebhookEvent>>
+  ): WebhookRouter<Amounts<E, WebhookEvent, ExactWebhookEvent>> {
+    return new WebhookRouter<Amounts<E, WebhookEvent, ExactWebhookEvent>>(this).on(type, handler);
   }
 
   /**
    * Generate signature for testing purposes.
    *
-   * @param payload - JSON payload object
-   * @param secret - Webhook secret
+   * @param payload - JSON payload object, or a raw body string signed as-is
+   * @param secret - Webhook secret, or several to emit one v1 signature per secret
    * @param timestamp - Unix timestamp (optional, defaults to now)
    * @returns Signature header value (t={timestamp},v1={signature})
    */
-  sign(payload: object, secret: string, timestamp?: number): string {
+  sign(payload: object | string, secret: string | string[], timestamp?: number): string {
     const ts = timestamp ?? Math.floor(Date.now() / 1000);
-    const body = JSON.stringify(payload);
+    const body = typeof payload === 'string' ? payload : JSON.stringify(payload);
     const signedPayload = `${ts}.${body}`;
-    const signature = createHmac('sha256', secret).update(signedPayload).digest('hex');
-    return `t=${ts},v1=${signature}`;
+    const signatures = (Array.isArray(secret) ? secret : [secret]).map((s) =>
+      createHmac('sha256', s).update(signedPayload).digest('hex')
+    );
+    return formatSignatureHeader(ts, signatures);
+  }
+
+  private withAmounts(event: WebhookEvent): Amounts<E, WebhookEvent, ExactWebhookEvent> {
+    return withAmounts<E, WebhookEvent, ExactWebhookEvent>(
+      this.options.cryptoAmounts ?? false,
+      event,
+      toExactWebhookEvent
+    );
   }
 }
@@ -0,0 +1,23 @@
+/**
+ * PayCoinPro testing utilities
+ *
+ * Import from `paycoinpro/testing`. Node.js only.
+ */
+
+export { MockPayCoinProServer, DEFAULT_ASSETS } from './mock-server.js';
+export type { MockServerOptions, CreateDepositOptions, MockInvoiceRecord } from './mock-server.js';
+export { InvoiceSimulator } from './simulator.js';
+export type { SimulatedPayment, SelectAssetOptions } from './simulator.js';
+export {
+  WebhookForwarder,
+  WEBHOOK_EVENT_STATUSES,
+  exampleWebhookEvent,
+  exampleWebhookEvents,
+  parseWebhookPayloads,
+} from '../lib/webhook-forwarder.js';
+export type {
+  WebhookForwarderOptions,
+  WebhookDelivery,
+  WebhookEventStatus,
+  SendSequenceOptions,
+} from '../lib/webhook-forwarder.js';
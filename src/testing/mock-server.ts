@@ -0,0 +1,569 @@
+/**
+ * In-memory PayCoinPro API for integration tests
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { Webhooks } from '../resources/webhooks.js';
+import type { WebhookEvent } from '../resources/webhooks.js';
+import { readRawBody } from '../adapters/shared.js';
+import { generateAddress, generateId, generateTxHash, roundTo } from './utils.js';
+import type {
+  Asset,
+  CreateDepositAddressRequest,
+  CreateInvoiceRequest,
+  Deposit,
+  DepositAddress,
+  ErrorResponse,
+  Invoice,
+  InvoiceCreated,
+  Pagination,
+} from '../types/index.js';
+
+const API_PREFIX = '/api/v1';
+
+export const DEFAULT_ASSETS: Asset[] = [
+  {
+    symbol: 'USDT',
+    name: 'Tether USD',
+    iconUrl: null,
+    networks: [
+      { code: 'ethereum', name: 'Ethereum' },
+      { code: 'bsc', name: 'BNB Smart Chain' },
+      { code: 'polygon', name: 'Polygon' },
+      { code: 'tron', name: 'Tron' },
+    ],
+  },
+  {
+    symbol: 'BTC',
+    name: 'Bitcoin',
+    iconUrl: null,
+    networks: [{ code: 'bitcoin', name: 'Bitcoin' }],
+  },
+  {
+    symbol: 'ETH',
+    name: 'Ethereum',
+    iconUrl: null,
+    networks: [
+      { code: 'ethereum', name: 'Ethereum' },
+      { code: 'arbitrum', name: 'Arbitrum One' },
+      { code: 'optimism', name: 'Optimism' },
+      { code: 'base', name: 'Base' },
+    ],
+  },
+];
+
+const DEFAULT_DECIMALS: Record<string, number> = { USDT: 6, BTC: 8, ETH: 18 };
+const DEFAULT_RATES: Record<string, number> = { USDT: 1, BTC: 50000, ETH: 3000 };
+
+export interface MockServerOptions {
+  /** Only this key is accepted. Any non-empty bearer token is accepted when omitted. */
+  apiKey?: string;
+  /** Supported assets (default: USDT, BTC and ETH) */
+  assets?: Asset[];
+  /** Fiat price per asset unit, used to compute `amountCrypto` (default: USDT 1, BTC 50000, ETH 3000) */
+  rates?: Record<string, number>;
+  /** Default webhook destination when an invoice has no `callbackUrl` */
+  webhookUrl?: string;
+  /** Secret used to sign webhooks (default: 'whsec_test') */
+  webhookSecret?: string;
+}
+
+export interface CreateDepositOptions {
+  amount: string | number;
+  txHash?: string;
+  senderAddress?: string | null;
+  status?: Deposit['status'];
+  /** Send a deposit webhook (default: true when status is CONFIRMED) */
+  notify?: boolean;
+}
+
+/** Extra per-invoice state the API does not return */
+export interface MockInvoiceRecord {
+  invoice: Invoice;
+  callbackUrl: string | null;
+  underpaymentTolerance: number;
+}
+
+class HTTPError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Local HTTP server implementing the PayCoinPro API in memory.
+ *
+ * @example
+ * ```typescript
+ * import { MockPayCoinProServer } from 'paycoinpro/testing';
+ *
+ * const server = new MockPayCoinProServer({ webhookUrl: 'http://localhost:3000/webhooks' });
+ * await server.start();
+ * const client = new PayCoinPro({ apiKey: 'pk_test', baseURL: server.baseURL });
+ * // ...
+ * await server.stop();
+ * ```
+ */
+export class MockPayCoinProServer {
+  readonly webhookSecret: string;
+  readonly invoices = new Map<string, MockInvoiceRecord>();
+  readonly depositAddresses = new Map<string, DepositAddress>();
+  readonly deposits: Deposit[] = [];
+  /** Every webhook sent, in order */
+  readonly sentWebhooks: Array<{ url: string; payload: WebhookEvent; status: number }> = [];
+
+  private readonly options: MockServerOptions;
+  private readonly webhooks = new Webhooks();
+  private server?: Server;
+  private origin = '';
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+    this.webhookSecret = options.webhookSecret ?? 'whsec_test';
+  }
+
+  /** Server origin, e.g. `http://127.0.0.1:54321` */
+  get url(): string {
+    if (!this.origin) {
+      throw new Error('Mock server is not running. Call start() first.');
+    }
+    return this.origin;
+  }
+
+  /** Value to pass as `baseURL` to the client */
+  get baseURL(): string {
+    return `${this.url}${API_PREFIX}`;
+  }
+
+  get assets(): Asset[] {
+    return this.options.assets ?? DEFAULT_ASSETS;
+  }
+
+  async start(port: number = 0): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        sendJSON(res, 500, { error: String(error), code: 'INTERNAL_ERROR' });
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+    this.server = server;
+    this.origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    this.origin = '';
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  /** Clear all stored invoices, addresses, deposits and sent webhooks */
+  reset(): void {
+    this.invoices.clear();
+    this.depositAddresses.clear();
+    this.deposits.length = 0;
+    this.sentWebhooks.length = 0;
+  }
+
+  /**
+   * Record a deposit to an existing deposit address, and send a
+   * deposit webhook when it is confirmed.
+   */
+  async createDeposit(depositAddressId: string, options: CreateDepositOptions): Promise<Deposit> {
+    const address = this.depositAddresses.get(depositAddressId);
+    if (!address) {
+      throw new Error(`Deposit address not found: ${depositAddressId}`);
+    }
+
+    const now = new Date().toISOString();
+    const status = options.status ?? 'CONFIRMED';
+    const amount = Number(options.amount);
+    const feeAmount = amount * 0.01;
+    const deposit: Deposit = {
+      id: generateId('dep'),
+      depositAddressId,
+      txHash: options.txHash ?? generateTxHash(),
+      amount: String(options.amount),
+      netAmount: String(amount - feeAmount),
+      feeAmount: String(feeAmount),
+      feePercent: '1.0',
+      status,
+      confirmations: status === 'PENDING' ? 0 : 12,
+      asset: { symbol: address.asset.symbol, name: address.asset.name },
+      network: { code: address.network.code, name: address.network.name },
+      createdAt: now,
+      confirmedAt: status === 'PENDING' ? null : now,
+    };
+
+    this.deposits.push(deposit);
+    address.totalReceived = String(Number(address.totalReceived) + amount);
+    address.paymentCount += 1;
+    address.lastPaymentAt = now;
+
+    if (options.notify ?? status === 'CONFIRMED') {
+      await this.sendWebhook({
+        event: 'deposit',
+        status: 'CONFIRMED',
+        depositAddress: address.address,
+        externalUserId: address.externalUserId,
+        senderAddress: options.senderAddress ?? null,
+        txHash: deposit.txHash,
+        amount,
+        amountFiat: amount * this.rateFor(address.asset.symbol),
+        cryptoSymbol: address.asset.symbol,
+        network: address.network.code,
+        networkName: address.network.name,
+        timestamp: now,
+      });
+    }
+
+    return deposit;
+  }
+
+  /**
+   * Sign `payload` with `Webhooks.sign` and POST it with an `X-Webhook-Signature` header.
+   * Does nothing (and returns undefined) when no destination URL is configured.
+   *
+   * @returns HTTP status returned by the webhook receiver
+   */
+  async sendWebhook(payload: WebhookEvent, url?: string): Promise<number | undefined> {
+    const destination = url ?? this.webhookUrlFor(payload);
+    if (!destination) {
+      return undefined;
+    }
+
+    const response = await fetch(destination, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Signature': this.webhooks.sign(payload, this.webhookSecret),
+      },
+      body: JSON.stringify(payload),
+    });
+
+    this.sentWebhooks.push({ url: destination, payload, status: response.status });
+    return response.status;
+  }
+
+  /**
+   * Choose the payment asset of a PENDING invoice, as the customer does on the
+   * payment page. Sets `amountCrypto` and `paymentAddress` and moves it to AWAITING.
+   */
+  selectInvoiceAsset(invoiceId: string, asset: string, network: string): Invoice {
+    const record = this.invoices.get(invoiceId);
+    if (!record) {
+      throw new Error(`Invoice not found: ${invoiceId}`);
+    }
+    if (record.invoice.status !== 'PENDING') {
+      throw new Error(`Invoice ${invoiceId} is ${record.invoice.status}, expected PENDING`);
+    }
+
+    this.assignInvoiceAsset(record.invoice, asset, network);
+    return record.invoice;
+  }
+
+  /** Fiat price of one unit of `symbol` */
+  rateFor(symbol: string): number {
+    const rates = { ...DEFAULT_RATES, ...this.options.rates };
+    return rates[symbol.toUpperCase()] ?? 1;
+  }
+
+  private webhookUrlFor(payload: WebhookEvent): string | undefined {
+    if (payload.event === 'invoice') {
+      const record = this.invoices.get(payload.invoiceId);
+      if (record?.callbackUrl) {
+        return record.callbackUrl;
+      }
+    }
+    return this.options.webhookUrl;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      this.authenticate(req);
+
+      const url = new URL(req.url ?? '/', this.origin);
+      const path = url.pathname.replace(/\/$/, '');
+      const method = req.method ?? 'GET';
+      const body = method === 'POST' ? await parseBody(req) : undefined;
+
+      const [status, data] = this.route(method, path, url.searchParams, body);
+      sendJSON(res, status, data);
+    } catch (error) {
+      if (error instanceof HTTPError) {
+        const body: ErrorResponse = { error: error.message, code: error.code };
+        if (error.details !== undefined) {
+          body.details = error.details;
+        }
+        sendJSON(res, error.status, body);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private authenticate(req: IncomingMessage): void {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+    const apiKey = match?.[1];
+
+    if (!apiKey || (this.options.apiKey !== undefined && apiKey !== this.options.apiKey)) {
+      throw new HTTPError(401, 'UNAUTHORIZED', 'Invalid or missing API key');
+    }
+  }
+
+  private route(
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    body: unknown
+  ): [number, unknown] {
+    if (path === `${API_PREFIX}/invoices` && method === 'GET') {
+      return [200, this.listInvoices(query)];
+    }
+    if (path === `${API_PREFIX}/invoices` && method === 'POST') {
+      return [201, this.createInvoice(body as CreateInvoiceRequest)];
+    }
+    if (path.startsWith(`${API_PREFIX}/invoices/`) && method === 'GET') {
+      const id = decodeURIComponent(path.slice(`${API_PREFIX}/invoices/`.length));
+      const record = this.invoices.get(id);
+      if (!record) {
+        throw new HTTPError(404, 'NOT_FOUND', 'Invoice not found');
+      }
+      return [200, record.invoice];
+    }
+    if (path === `${API_PREFIX}/deposit-addresses` && method === 'GET') {
+      return [200, this.listDepositAddresses(query)];
+    }
+    if (path === `${API_PREFIX}/deposit-addresses` && method === 'POST') {
+      return [201, this.createDepositAddress(body as CreateDepositAddressRequest)];
+    }
+    if (path === `${API_PREFIX}/deposits` && method === 'GET') {
+      return [200, this.listDeposits(query)];
+    }
+    if (path === `${API_PREFIX}/assets` && method === 'GET') {
+      return [200, { assets: this.assets }];
+    }
+
+    throw new HTTPError(404, 'NOT_FOUND', `No route for ${method} ${path}`);
+  }
+
+  private createInvoice(params: CreateInvoiceRequest): InvoiceCreated {
+    if (typeof params?.amount !== 'number' || params.amount <= 0) {
+      throw new HTTPError(400, 'VALIDATION_ERROR', 'Invalid request', [
+        { field: 'amount', message: 'amount must be a positive number' },
+      ]);
+    }
+    if (params.asset && !params.network) {
+      throw new HTTPError(400, 'VALIDATION_ERROR', 'Invalid request', [
+        { field: 'network', message: 'network is required when asset is provided' },
+      ]);
+    }
+
+    const now = new Date();
+    const id = generateId('inv');
+    const expiresAt = new Date(now.getTime() + (params.expiresIn ?? 60) * 60 * 1000);
+
+    const invoice: Invoice = {
+      id,
+      amount: params.amount,
+      currency: params.currency ?? 'USD',
+      amountCrypto: null,
+      amountReceived: 0,
+      status: 'PENDING',
+      asset: null,
+      paymentAddress: null,
+      orderId: params.orderId ?? null,
+      customerEmail: params.customerEmail ?? null,
+      metadata: params.metadata ?? null,
+      expiresAt: expiresAt.toISOString(),
+      paidAt: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      paymentUrl: `${this.origin}/pay/${id}`,
+      transactions: [],
+    };
+
+    // With asset and network the invoice is finalized immediately
+    if (params.asset && params.network) {
+      this.assignInvoiceAsset(invoice, params.asset, params.network);
+    }
+
+    this.invoices.set(id, {
+      invoice,
+      callbackUrl: params.callbackUrl ?? null,
+      underpaymentTolerance: params.underpaymentTolerance ?? 0.1,
+    });
+
+    return {
+      id,
+      amount: invoice.amount,
+      currency: invoice.currency,
+      status: invoice.status,
+      orderId: invoice.orderId,
+      customerEmail: invoice.customerEmail,
+      title: params.title ?? null,
+      description: params.description ?? null,
+      successUrl: params.successUrl ?? null,
+      cancelUrl: params.cancelUrl ?? null,
+      expiresAt: invoice.expiresAt,
+      paymentUrl: invoice.paymentUrl,
+      createdAt: invoice.createdAt,
+    };
+  }
+
+  private listInvoices(query: URLSearchParams) {
+    const status = query.get('status');
+    const invoices = [...this.invoices.values()]
+      .map((record) => record.invoice)
+      .filter((invoice) => !status || invoice.status === status)
+      .reverse();
+    const { items, pagination } = paginate(invoices, query, 20);
+    return { invoices: items, pagination };
+  }
+
+  private createDepositAddress(params: CreateDepositAddressRequest): DepositAddress {
+    if (!params?.asset || !params.network) {
+      throw new HTTPError(400, 'VALIDATION_ERROR', 'Invalid request', [
+        { field: params?.asset ? 'network' : 'asset', message: 'Required' },
+      ]);
+    }
+
+    const { symbol, name, network } = this.findAssetNetwork(params.asset, params.network);
+    const now = new Date();
+    const expiryDays = params.expiryDays ?? 30;
+    const address: DepositAddress = {
+      id: generateId('depaddr'),
+      address: generateAddress(network.code),
+      status: 'ACTIVE',
+      externalUserId: params.externalUserId ?? null,
+      asset: {
+        id: `asset_${symbol.toLowerCase()}_${network.code}`,
+        symbol,
+        name,
+        decimals: DEFAULT_DECIMALS[symbol] ?? 18,
+      },
+      network: { id: `network_${network.code}`, code: network.code, name: network.name },
+      totalReceived: '0',
+      paymentCount: 0,
+      lastPaymentAt: null,
+      expiresAt: new Date(now.getTime() + expiryDays * 24 * 60 * 60 * 1000).toISOString(),
+      createdAt: now.toISOString(),
+    };
+
+    this.depositAddresses.set(address.id, address);
+    return address;
+  }
+
+  private listDepositAddresses(query: URLSearchParams) {
+    const status = query.get('status');
+    const externalUserId = query.get('externalUserId');
+    const addresses = [...this.depositAddresses.values()]
+      .filter((address) => !status || address.status === status)
+      .filter((address) => !externalUserId || address.externalUserId === externalUserId)
+      .reverse();
+    const { items, pagination } = paginate(addresses, query, 50);
+    return { addresses: items, pagination };
+  }
+
+  private listDeposits(query: URLSearchParams) {
+    const status = query.get('status');
+    const depositAddressId = query.get('depositAddressId');
+    const deposits = [...this.deposits]
+      .filter((deposit) => !status || deposit.status === status)
+      .filter((deposit) => !depositAddressId || deposit.depositAddressId === depositAddressId)
+      .reverse();
+
+    const { items, pagination } = paginate(deposits, query, 50);
+    const { hasMore } = pagination;
+
+    return {
+      deposits: items,
+      pagination: { nextCursor: hasMore ? items[items.length - 1].id : null, hasMore },
+    };
+  }
+
+  private assignInvoiceAsset(invoice: Invoice, assetCode: string, networkCode: string): void {
+    const { symbol, name, network } = this.findAssetNetwork(assetCode, networkCode);
+    const decimals = DEFAULT_DECIMALS[symbol] ?? 18;
+
+    invoice.asset = {
+      symbol,
+      name,
+      decimals,
+      iconUrl: null,
+      network: { code: network.code, name: network.name },
+    };
+    invoice.amountCrypto = roundTo(invoice.amount / this.rateFor(symbol), Math.min(decimals, 8));
+    invoice.paymentAddress = generateAddress(network.code);
+    invoice.status = 'AWAITING';
+    invoice.updatedAt = new Date().toISOString();
+  }
+
+  private findAssetNetwork(assetCode: string, networkCode: string) {
+    const asset = this.assets.find((a) => a.symbol.toLowerCase() === assetCode.toLowerCase());
+    const network = asset?.networks.find((n) => n.code.toLowerCase() === networkCode.toLowerCase());
+
+    if (!asset || !network) {
+      throw new HTTPError(
+        400,
+        'UNSUPPORTED_ASSET',
+        `Unsupported asset/network: ${assetCode}/${networkCode}`
+      );
+    }
+
+    return { symbol: asset.symbol, name: asset.name, network };
+  }
+}
+
+function paginate<T>(
+  items: T[],
+  query: URLSearchParams,
+  defaultLimit: number
+): { items: T[]; pagination: Pagination } {
+  const limit = clampLimit(query.get('limit'), defaultLimit);
+  const offset = Math.max(0, Number(query.get('offset') ?? 0) || 0);
+  const page = items.slice(offset, offset + limit);
+
+  return {
+    items: page,
+    pagination: { total: items.length, limit, offset, hasMore: offset + limit < items.length },
+  };
+}
+
+function clampLimit(value: string | null, defaultLimit: number): number {
+  const limit = Number(value ?? defaultLimit) || defaultLimit;
+  return Math.min(100, Math.max(1, limit));
+}
+
+async function parseBody(req: IncomingMessage): Promise<unknown> {
+  const raw = (await readRawBody(req))?.toString('utf8') ?? '';
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HTTPError(400, 'INVALID_JSON', 'Request body is not valid JSON');
+  }
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
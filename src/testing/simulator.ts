@@ -0,0 +1,174 @@
+/**
+ * Scripted invoice lifecycle for tests against MockPayCoinProServer
+ */
+
+import type { Invoice, InvoiceWebhookPayload, Transaction } from '../types/index.js';
+import type { MockInvoiceRecord, MockPayCoinProServer } from './mock-server.js';
+import { generateId, generateTxHash, roundTo } from './utils.js';
+
+export interface SimulatedPayment {
+  /** Amount in crypto units of the invoice asset */
+  amount: number;
+  txHash?: string;
+  senderAddress?: string | null;
+}
+
+export interface SelectAssetOptions {
+  asset: string;
+  network: string;
+}
+
+/**
+ * Drives the invoice state machine the way the PayCoinPro backend does:
+ *
+ * ```
+ * PENDING → AWAITING → PARTIAL ─┬→ PAID / OVERPAID
+ *    │         │                └→ UNDERPAID (on expiry)
+ *    └─────────┴→ EXPIRED
+ * ```
+ *
+ * Each transition updates what `invoices.retrieve` returns and sends the
+ * matching `InvoiceWebhookPayload` through the server.
+ *
+ * @example
+ * ```typescript
+ * const sim = new InvoiceSimulator(server);
+ * await sim.pay(invoice.id, { amount: 60 });  // PARTIAL
+ * await sim.pay(invoice.id, { amount: 40 });  // PAID
+ * ```
+ */
+export class InvoiceSimulator {
+  constructor(private readonly server: MockPayCoinProServer) {}
+
+  /**
+   * Choose the payment asset of a PENDING invoice (PENDING → AWAITING).
+   */
+  select(invoiceId: string, options: SelectAssetOptions): Invoice {
+    return this.server.selectInvoiceAsset(invoiceId, options.asset, options.network);
+  }
+
+  /**
+   * Record an on-chain payment to an AWAITING or PARTIAL invoice.
+   *
+   * The invoice becomes PAID once `amountReceived` reaches the expected amount
+   * minus `underpaymentTolerance` percent, OVERPAID above the expected amount,
+   * and PARTIAL otherwise.
+   */
+  async pay(invoiceId: string, payment: SimulatedPayment): Promise<Invoice> {
+    const record = this.getRecord(invoiceId);
+    const { invoice } = record;
+
+    if (invoice.status !== 'AWAITING' && invoice.status !== 'PARTIAL') {
+      throw new Error(
+        `Cannot pay invoice ${invoiceId} in status ${invoice.status}` +
+          (invoice.status === 'PENDING' ? '. Call select() first.' : '')
+      );
+    }
+    if (!(payment.amount > 0)) {
+      throw new Error('Payment amount must be positive');
+    }
+
+    const now = new Date().toISOString();
+    const decimals = precisionOf(invoice);
+    const transaction: Transaction = {
+      id: generateId('tx'),
+      txHash: payment.txHash ?? generateTxHash(),
+      amount: payment.amount,
+      status: 'CONFIRMED',
+      createdAt: now,
+      confirmedAt: now,
+    };
+
+    invoice.transactions = [...(invoice.transactions ?? []), transaction];
+    invoice.amountReceived = roundTo(invoice.amountReceived + payment.amount, decimals);
+    invoice.status = paymentStatus(record);
+    invoice.updatedAt = now;
+    if (invoice.status !== 'PARTIAL') {
+      invoice.paidAt = now;
+    }
+
+    await this.notify(record, transaction.txHash ?? '', payment.senderAddress ?? null);
+    return invoice;
+  }
+
+  /**
+   * Let the invoice run out of time. Unpaid invoices become EXPIRED,
+   * partially paid ones UNDERPAID.
+   */
+  async expire(invoiceId: string): Promise<Invoice> {
+    const record = this.getRecord(invoiceId);
+    const { invoice } = record;
+
+    if (!['PENDING', 'AWAITING', 'PARTIAL'].includes(invoice.status)) {
+      throw new Error(`Cannot expire invoice ${invoiceId} in status ${invoice.status}`);
+    }
+
+    const now = new Date().toISOString();
+    invoice.status = invoice.status === 'PARTIAL' ? 'UNDERPAID' : 'EXPIRED';
+    invoice.expiresAt = now;
+    invoice.updatedAt = now;
+
+    const lastTransaction = invoice.transactions?.[invoice.transactions.length - 1];
+    await this.notify(record, lastTransaction?.txHash ?? '', null);
+    return invoice;
+  }
+
+  private getRecord(invoiceId: string): MockInvoiceRecord {
+    const record = this.server.invoices.get(invoiceId);
+    if (!record) {
+      throw new Error(`Invoice not found: ${invoiceId}`);
+    }
+    return record;
+  }
+
+  private async notify(
+    record: MockInvoiceRecord,
+    txHash: string,
+    senderAddress: string | null
+  ): Promise<void> {
+    const { invoice } = record;
+    const payload: InvoiceWebhookPayload = {
+      event: 'invoice',
+      invoiceId: invoice.id,
+      orderId: invoice.orderId,
+      status: invoice.status as InvoiceWebhookPayload['status'],
+      depositAddress: invoice.paymentAddress ?? '',
+      senderAddress,
+      txHash,
+      amountReceived: invoice.amountReceived,
+      amountExpected: invoice.amountCrypto,
+      cryptoSymbol: invoice.asset?.symbol ?? null,
+      network: invoice.asset?.network.code ?? null,
+      networkName: invoice.asset?.network.name ?? null,
+      amountFiat: invoice.amount,
+      fiatCurrency: invoice.currency,
+      timestamp: invoice.updatedAt,
+    };
+
+    await this.server.sendWebhook(payload);
+  }
+}
+
+/**
+ * Status after a payment, applying `underpaymentTolerance` (a percentage, 0.1–1).
+ */
+function paymentStatus(record: MockInvoiceRecord): 'PARTIAL' | 'PAID' | 'OVERPAID' {
+  const { amountReceived, amountCrypto } = record.invoice;
+  const expected = amountCrypto ?? 0;
+  const threshold = roundTo(
+    expected * (1 - record.underpaymentTolerance / 100),
+    precisionOf(record.invoice)
+  );
+
+  if (amountReceived > expected) {
+    return 'OVERPAID';
+  }
+  return amountReceived >= threshold ? 'PAID' : 'PARTIAL';
+}
+
+/**
+ * Decimal places used for amounts, matching how `amountCrypto` is rounded.
+ */
+function precisionOf(invoice: Invoice): number {
+  return Math.min(invoice.asset?.decimals ?? 8, 8);
+}
@@ -0,0 +1,24 @@
+import { randomBytes } from 'crypto';
+
+export function generateId(prefix: string): string {
+  return `${prefix}_${randomBytes(8).toString('hex')}`;
+}
+
+export function generateTxHash(): string {
+  return `0x${randomBytes(32).toString('hex')}`;
+}
+
+export function generateAddress(network: string): string {
+  if (network === 'bitcoin') {
+    return `bc1q${randomBytes(19).toString('hex')}`;
+  }
+  if (network === 'tron') {
+    return `T${randomBytes(17).toString('hex')}`;
+  }
+  return `0x${randomBytes(20).toString('hex')}`;
+}
+
+export function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -5,15 +5,69 @@
  * Run `npm run generate` to update.
  */
 
+import type { CryptoAmount } from '../lib/money.js';
+import type { RequestHooks } from '../lib/hooks.js';
+import type { Logger, LogLevel } from '../lib/logger.js';
+import type { RetryPolicy } from '../lib/retry.js';
+import type { ValidationMode } from '../lib/validation.js';
+
 // SDK Configuration (not from API)
 export interface PayCoinProOptions {
   apiKey: string;
   baseURL?: string;
   timeout?: number;
   maxRetries?: number;
+  /** Backoff and retry decision tuning, used when `maxRetries` > 0 */
+  retry?: RetryPolicy;
+  /** Shorthand for `logLevel: 'debug'` */
   debug?: boolean;
+  /**
+   * Receives request, response, retry and validation logs (default: `console`).
+   * Accepts console, pino, winston and similar loggers.
+   */
+  logger?: Logger;
+  /** Minimum level passed to `logger` (default: 'warn', or 'debug' with `debug: true`) */
+  logLevel?: LogLevel | 'off';
   fetch?: typeof fetch;
+  /** Headers sent with every request. Per-request `headers` take precedence. */
   defaultHeaders?: Record<string, string>;
+  /** Identifies your integration in the User-Agent header */
+  appInfo?: AppInfo;
+  /**
+   * Return crypto amounts in responses and webhook payloads as exact
+   * `CryptoAmount` values instead of numbers and strings (default: false)
+   */
+  cryptoAmounts?: boolean;
+  /**
+   * Check responses and webhook payloads against the API schema (default: 'off').
+   * `'warn'` logs mismatches, `'strict'` throws `ResponseValidationError`.
+   */
+  validateResponses?: ValidationMode;
+  /**
+   * Check create parameters against documented constraints before sending,
+   * throwing `ValidationError` (default: true)
+   */
+  validateRequests?: boolean;
+  /**
+   * Check `asset` and `network` in create parameters against the cached
+   * asset catalog before sending, throwing `ValidationError` (default: false)
+   */
+  validateAssets?: boolean;
+  /** How long `assetCatalog` reuses the asset list, in ms (default: 300000) */
+  assetCatalogTtlMs?: number;
+  /** Callbacks around every HTTP attempt. Multiple hook sets run in array order. */
+  hooks?: RequestHooks | RequestHooks[];
+  /**
+   * Record OpenTelemetry spans for API requests and webhook verification when
+   * `@opentelemetry/api` is installed (default: true)
+   */
+  tracing?: boolean;
+}
+
+export interface AppInfo {
+  name: string;
+  version?: string;
+  url?: string;
 }
 
 export interface RequestOptions {
@@ -21,9 +75,21 @@ export interface RequestOptions {
   maxRetries?: number;
   headers?: Record<string, string>;
   signal?: AbortSignal;
+  /**
+   * Sent as the `Idempotency-Key` header. When omitted, POST requests with
+   * retries enabled get a generated key that is reused across attempts.
+   */
   idempotencyKey?: string;
 }
 
+/** Options for `client.request()` */
+export interface APIRequestOptions extends RequestOptions {
+  /** Query string parameters; `undefined` and `null` values are skipped */
+  query?: Record<string, unknown>;
+  /** Sent as JSON */
+  body?: unknown;
+}
+
 // Internal API response wrapper
 export interface APIResponse<T> {
   success: boolean;
@@ -43,6 +109,7 @@ export type InvoiceCreated = components['schemas']['InvoiceCreated'];
 export type CreateInvoiceRequest = components['schemas']['CreateInvoiceRequest'];
 export type InvoiceListResponse = components['schemas']['InvoiceListResponse'];
 export type InvoiceStatus = Invoice['status'];
+export type Transaction = components['schemas']['Transaction'];
 
 // Deposit Addresses
 export type DepositAddress = components['schemas']['DepositAddress'];
@@ -68,3 +135,47 @@ export type WebhookPayload = InvoiceWebhookPayload;
 // Common
 export type Pagination = components['schemas']['Pagination'];
 export type ErrorResponse = components['schemas']['ErrorResponse'];
+
+// Exact amounts (`cryptoAmounts: true`)
+export type ExactTransaction = Omit<Transaction, 'amount'> & { amount: CryptoAmount };
+export type ExactInvoice = Omit<Invoice, 'amountCrypto' | 'amountReceived' | 'transactions'> & {
+  amountCrypto: CryptoAmount | null;
+  amountReceived: CryptoAmount;
+  transactions?: ExactTransaction[];
+};
+export type ExactInvoiceListResponse = Omit<InvoiceListResponse, 'invoices'> & {
+  invoices: ExactInvoice[];
+};
+export type ExactDepositAddress = Omit<DepositAddress, 'totalReceived'> & {
+  totalReceived: CryptoAmount;
+};
+export type ExactDepositAddressCreated = Omit<DepositAddressCreated, 'totalReceived'> & {
+  totalReceived: CryptoAmount;
+};
+export type ExactDepositAddressListResponse = Omit<DepositAddressListResponse, 'addresses'> & {
+  addresses: ExactDepositAddress[];
+};
+export type ExactDeposit = Omit<Deposit, 'amount' | 'netAmount' | 'feeAmount'> & {
+  amount: CryptoAmount;
+  netAmount: CryptoAmount;
+  feeAmount: CryptoAmount;
+};
+export type ExactDepositListResponse = Omit<DepositListResponse, 'deposits'> & {
+  deposits: ExactDeposit[];
+};
+export type ExactInvoiceWebhookPayload = Omit<
+  InvoiceWebhookPayload,
+  'amountReceived' | 'amountExpected'
+> & {
+  amountReceived: CryptoAmount;
+  amountExpected: CryptoAmount | null;
+};
+export type ExactDepositWebhookPayload = Omit<DepositWebhookPayload, 'amount'> & {
+  amount: CryptoAmount;
+};
+export type ExactWebhookEvent = ExactInvoiceWebhookPayload | ExactDepositWebhookPayload;
+
+/**
+ * Resolves to `Exact` when the client was created with `cryptoAmounts: true`, `Raw` otherwise.
+ */
+export type Amounts<E extends boolean, Raw, Exact> = E extends true ? Exact : Raw;
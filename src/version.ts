@@ -0,0 +1,2 @@
+// Keep in sync with package.json
+export const VERSION = '1.3.1';
@@ -0,0 +1,355 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import Fastify from 'fastify';
+import PayCoinPro, { CryptoAmount } from '../src/index.js';
+import { SDKLogger } from '../src/lib/logger.js';
+import { Webhooks } from '../src/resources/webhooks.js';
+import { expressWebhookHandler } from '../src/adapters/express.js';
+import { fastifyWebhookPlugin } from '../src/adapters/fastify.js';
+import { nextWebhookHandler } from '../src/adapters/next.js';
+import { nodeWebhookHandler } from '../src/adapters/node.js';
+
+const secret = 'whsec_test';
+const payload = {
+  event: 'deposit',
+  status: 'CONFIRMED',
+  depositAddress: '0xabc',
+  externalUserId: 'user_123',
+  senderAddress: null,
+  txHash: '0xdeposit',
+  amount: 50,
+  amountFiat: 50,
+  cryptoSymbol: 'USDT',
+  network: 'BSC',
+  networkName: 'BNB Smart Chain',
+  timestamp: '2025-01-01T00:00:00.000Z',
+};
+const rawBody = JSON.stringify(payload);
+const signature = () => new Webhooks().sign(payload, secret);
+
+const post = (url: string, headers: Record<string, string> = {}, body: string = rawBody) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+  });
+
+const servers: http.Server[] = [];
+
+const listen = async (server: http.Server): Promise<string> => {
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+afterEach(async () => {
+  await Promise.all(
+    servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve)))
+  );
+});
+
+describe('Express adapter', () => {
+  it('should verify and pass the event to the handler', async () => {
+    const handler = vi.fn();
+    const app = express();
+    app.post('/webhooks', expressWebhookHandler({ secret, handler }));
+    const url = await listen(http.createServer(app));
+
+    const response = await post(`${url}/webhooks`, { 'X-Webhook-Signature': signature() });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true });
+    expect(handler).toHaveBeenCalledWith(payload, expect.anything());
+  });
+
+  it('should work behind express.raw()', async () => {
+    const handler = vi.fn();
+    const app = express();
+    app.post(
+      '/webhooks',
+      express.raw({ type: 'application/json' }),
+      expressWebhookHandler({ secret, handler })
+    );
+    const url = await listen(http.createServer(app));
+
+    const response = await post(`${url}/webhooks`, { 'X-Webhook-Signature': signature() });
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('should reject with 400 when express.json() consumed the body', async () => {
+    const handler = vi.fn();
+    const app = express();
+    app.use(express.json());
+    app.post('/webhooks', expressWebhookHandler({ secret, handler }));
+    const url = await listen(http.createServer(app));
+
+    const response = await post(`${url}/webhooks`, { 'X-Webhook-Signature': signature() });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'invalid_body' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject with 400 when the signature header is missing', async () => {
+    const app = express();
+    app.post('/webhooks', expressWebhookHandler({ secret, handler: vi.fn() }));
+    const url = await listen(http.createServer(app));
+
+    const response = await post(`${url}/webhooks`);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'missing_signature' });
+  });
+
+  it('should reject with 401 for an invalid signature', async () => {
+    const app = express();
+    app.post('/webhooks', expressWebhookHandler({ secret: 'other_secret', handler: vi.fn() }));
+    const url = await listen(http.createServer(app));
+
+    const response = await post(`${url}/webhooks`, { 'X-Webhook-Signature': signature() });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'invalid_signature' });
+  });
+
+  it('should reject with 413 when the body exceeds maxBodySize', async () => {
+    const handler = vi.fn();
+    const app = express();
+    app.post('/webhooks', expressWebhookHandler({ secret, handler, maxBodySize: 64 }));
+    const url = await listen(http.createServer(app));
+
+    const response = await post(`${url}/webhooks`, { 'X-Webhook-Signature': signature() });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({
+      error: 'Webhook body exceeds 64 bytes',
+      code: 'body_too_large',
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('Fastify adapter', () => {
+  it('should verify and pass the event to the handler', async () => {
+    const handler = vi.fn();
+    const app = Fastify();
+    await app.register(fastifyWebhookPlugin({ path: '/webhooks', secret, handler }));
+    app.post('/other', async (request) => request.body);
+    const url = await app.listen({ port: 0, host: '127.0.0.1' });
+
+    try {
+      const response = await post(`${url}/webhooks`, { 'X-Webhook-Signature': signature() });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ received: true });
+      expect(handler).toHaveBeenCalledWith(payload, expect.anything());
+
+      // Routes outside the plugin keep JSON parsing
+      const other = await post(`${url}/other`);
+      expect(await other.json()).toEqual(payload);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('should reject with 401 for an invalid signature', async () => {
+    const app = Fastify();
+    await app.register(fastifyWebhookPlugin({ secret: 'other_secret', handler: vi.fn() }));
+    const url = await app.listen({ port: 0, host: '127.0.0.1' });
+
+    try {
+      const response = await post(`${url}/webhooks`, { 'X-Webhook-Signature': signature() });
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ code: 'invalid_signature' });
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('should answer 500 without revealing handler errors', async () => {
+    const error = new Error('db password=hunter2');
+    const onError = vi.fn();
+    const app = Fastify();
+    await app.register(
+      fastifyWebhookPlugin({ secret, handler: vi.fn().mockRejectedValue(error), onError })
+    );
+    const url = await app.listen({ port: 0, host: '127.0.0.1' });
+
+    try {
+      const response = await post(`${url}/webhooks`, { 'X-Webhook-Signature': signature() });
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        error: 'Webhook handler failed',
+        code: 'handler_error',
+      });
+      expect(onError).toHaveBeenCalledWith(error, expect.anything());
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('should reject with 413 when the body exceeds maxBodySize', async () => {
+    const handler = vi.fn();
+    const onError = vi.fn();
+    const app = Fastify();
+    await app.register(fastifyWebhookPlugin({ secret, handler, onError, maxBodySize: 64 }));
+    const url = await app.listen({ port: 0, host: '127.0.0.1' });
+
+    try {
+      const response = await post(`${url}/webhooks`, { 'X-Webhook-Signature': signature() });
+      expect(response.status).toBe(413);
+      expect(await response.json()).toEqual({
+        error: 'Webhook body exceeds 64 bytes',
+        code: 'body_too_large',
+      });
+      expect(handler).not.toHaveBeenCalled();
+      expect(onError).not.toHaveBeenCalled();
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe('Next.js adapter', () => {
+  it('should verify and pass the event to the handler', async () => {
+    const handler = vi.fn();
+    const route = nextWebhookHandler({ secret, handler });
+
+    const response = await route(
+      new Request('http://localhost/api/webhooks', {
+        method: 'POST',
+        headers: { 'X-Webhook-Signature': signature() },
+        body: rawBody,
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true });
+    expect(handler).toHaveBeenCalledWith(payload, expect.any(Request));
+  });
+
+  it('should pass exact events when given a cryptoAmounts client', async () => {
+    const handler = vi.fn();
+    const { webhooks } = new PayCoinPro({ apiKey: 'pk_test', cryptoAmounts: true });
+    const route = nextWebhookHandler({ secret, webhooks, handler });
+
+    await route(
+      new Request('http://localhost/api/webhooks', {
+        method: 'POST',
+        headers: { 'X-Webhook-Signature': signature() },
+        body: rawBody,
+      })
+    );
+
+    expect(handler.mock.calls[0][0].amount).toBeInstanceOf(CryptoAmount);
+    expect(handler.mock.calls[0][0].amount.toString()).toBe('50');
+  });
+
+  it('should reject with 400 when the signature header is missing', async () => {
+    const route = nextWebhookHandler({ secret, handler: vi.fn() });
+
+    const response = await route(
+      new Request('http://localhost/api/webhooks', { method: 'POST', body: rawBody })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should stop reading a streamed body once it exceeds maxBodySize', async () => {
+    const handler = vi.fn();
+    const route = nextWebhookHandler({ secret, handler, maxBodySize: 64 });
+    const chunk = new TextEncoder().encode(rawBody);
+
+    const response = await route(
+      new Request('http://localhost/api/webhooks', {
+        method: 'POST',
+        headers: { 'X-Webhook-Signature': signature() },
+        body: new ReadableStream({ pull: (controller) => controller.enqueue(chunk) }),
+        duplex: 'half',
+      } as RequestInit)
+    );
+
+    expect(response.status).toBe(413);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('Node http adapter', () => {
+  it('should verify and pass the event to the handler', async () => {
+    const handler = vi.fn();
+    const url = await listen(http.createServer(nodeWebhookHandler({ secret, handler })));
+
+    const response = await post(url, { 'X-Webhook-Signature': signature() });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true });
+    expect(handler).toHaveBeenCalledWith(payload, expect.any(http.IncomingMessage));
+  });
+
+  it('should reject with 401 for a tampered body', async () => {
+    const url = await listen(http.createServer(nodeWebhookHandler({ secret, handler: vi.fn() })));
+
+    const response = await post(
+      url,
+      { 'X-Webhook-Signature': signature() },
+      rawBody.replace('50', '5000')
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should answer 500 without revealing handler errors', async () => {
+    const error = new Error('database down at 10.0.0.5');
+    const handler = vi.fn().mockRejectedValue(error);
+    const onError = vi.fn();
+    const url = await listen(http.createServer(nodeWebhookHandler({ secret, handler, onError })));
+
+    const response = await post(url, { 'X-Webhook-Signature': signature() });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      error: 'Webhook handler failed',
+      code: 'handler_error',
+    });
+    expect(onError).toHaveBeenCalledWith(error, expect.any(http.IncomingMessage));
+  });
+
+  it('should log handler errors through the webhooks logger, not the console', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('database down'));
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const webhooks = new Webhooks({ logger: new SDKLogger({ logger }) });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      const logged = await listen(
+        http.createServer(nodeWebhookHandler({ secret, handler, webhooks }))
+      );
+      expect((await post(logged, { 'X-Webhook-Signature': signature() })).status).toBe(500);
+      expect(logger.error).toHaveBeenCalledWith('Webhook handler failed', {
+        error: { name: 'Error', message: 'database down' },
+      });
+
+      const silent = await listen(http.createServer(nodeWebhookHandler({ secret, handler })));
+      expect((await post(silent, { 'X-Webhook-Signature': signature() })).status).toBe(500);
+      expect(consoleError).not.toHaveBeenCalled();
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('should reject with 413 when the body exceeds maxBodySize', async () => {
+    const handler = vi.fn();
+    const url = await listen(
+      http.createServer(nodeWebhookHandler({ secret, handler, maxBodySize: 64 }))
+    );
+
+    const response = await post(url, { 'X-Webhook-Signature': signature() });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ code: 'body_too_large' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PayCoinPro, {
+  APIPromise,
+  CryptoAmount,
+  NotFoundError,
+  ValidationError,
+} from '../src/index.js';
+
+const invoice = {
+  id: 'inv_123',
+  amount: 100,
+  currency: 'USD',
+  amountCrypto: 100.5,
+  amountReceived: 0,
+  status: 'AWAITING',
+  paymentAddress: '0xabc',
+  orderId: null,
+  customerEmail: null,
+  expiresAt: '2025-01-01T01:00:00.000Z',
+  paidAt: null,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  paymentUrl: 'https://pay.paycoinpro.com/pay/inv_123',
+  asset: { symbol: 'USDT', name: 'Tether USD', iconUrl: null, decimals: 6 },
+  network: { code: 'bsc', name: 'BNB Smart Chain' },
+};
+
+describe('APIPromise', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+  });
+
+  const jsonResponse = (body: unknown, init: ResponseInit = {}) =>
+    Response.json(body, {
+      ...init,
+      headers: { 'X-Request-Id': 'req_123', 'X-RateLimit-Remaining': '99', ...init.headers },
+    });
+
+  it('should resolve to the parsed body when awaited', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(invoice));
+    const client = new PayCoinPro({ apiKey: 'pk_test_123', fetch: mockFetch });
+
+    const promise = client.invoices.retrieve('inv_123');
+
+    expect(promise).toBeInstanceOf(APIPromise);
+    expect(promise).toBeInstanceOf(Promise);
+    expect(await promise).toEqual(invoice);
+  });
+
+  it('should expose the response, request id and duration', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(invoice));
+    const client = new PayCoinPro({ apiKey: 'pk_test_123', fetch: mockFetch });
+
+    const { data, response, requestId, durationMs } = await client.invoices
+      .retrieve('inv_123')
+      .withResponse();
+
+    expect(data).toEqual(invoice);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-ratelimit-remaining')).toBe('99');
+    expect(requestId).toBe('req_123');
+    expect(durationMs).toBeGreaterThanOrEqual(0);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should convert amounts in data and keep the response', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ invoices: [invoice], pagination: {} }));
+    const client = new PayCoinPro({ apiKey: 'pk_test_123', fetch: mockFetch, cryptoAmounts: true });
+
+    const { data, requestId } = await client.invoices.list().withResponse();
+
+    expect(data.invoices[0].amountCrypto).toBeInstanceOf(CryptoAmount);
+    expect(requestId).toBe('req_123');
+  });
+
+  it('should return the response of the attempt that succeeded', async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({ error: 'Unavailable', code: 'UNAVAILABLE' }, { status: 503 })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({ assets: [] }, { headers: { 'X-Request-Id': 'req_2' } })
+      );
+    const client = new PayCoinPro({
+      apiKey: 'pk_test_123',
+      fetch: mockFetch,
+      maxRetries: 1,
+      retry: { baseDelay: 0 },
+    });
+
+    const { data, requestId } = await client.assets.list().withResponse();
+
+    expect(data).toEqual({ assets: [] });
+    expect(requestId).toBe('req_2');
+  });
+
+  it('should reject through await, catch, finally and withResponse', async () => {
+    mockFetch.mockImplementation(async () =>
+      jsonResponse({ error: 'Invoice not found', code: 'NOT_FOUND' }, { status: 404 })
+    );
+    const client = new PayCoinPro({ apiKey: 'pk_test_123', fetch: mockFetch });
+    const onFinally = vi.fn();
+
+    await expect(client.invoices.retrieve('inv_missing')).rejects.toThrow(NotFoundError);
+    await expect(client.invoices.retrieve('inv_missing').withResponse()).rejects.toThrow(
+      NotFoundError
+    );
+    expect(await client.invoices.retrieve('inv_missing').catch((error) => error.code)).toBe(
+      'NOT_FOUND'
+    );
+    await expect(client.invoices.retrieve('inv_missing').finally(onFinally)).rejects.toThrow(
+      'Invoice not found'
+    );
+    expect(onFinally).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid parameters before sending', async () => {
+    const client = new PayCoinPro({ apiKey: 'pk_test_123', fetch: mockFetch });
+
+    await expect(client.invoices.create({ amount: -1 }).withResponse()).rejects.toThrow(
+      ValidationError
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should map data without sending another request', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ assets: [{ symbol: 'USDT' }] }));
+    const client = new PayCoinPro({ apiKey: 'pk_test_123', fetch: mockFetch });
+
+    const symbols = client.assets.list().map(({ assets }) => assets.map((asset) => asset.symbol));
+
+    expect(await symbols).toEqual(['USDT']);
+    expect((await symbols.withResponse()).requestId).toBe('req_123');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('client.request', () => {
+  it('should call endpoints the SDK does not wrap', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(Response.json({ ok: true }, { status: 201 }));
+    const client = new PayCoinPro({ apiKey: 'pk_test_123', fetch: mockFetch });
+
+    const { data, response } = await client
+      .request<{ ok: boolean }>('PUT', '/merchant/settings', {
+        query: { dryRun: true, skipped: undefined },
+        body: { webhookUrl: 'https://example.com/hooks' },
+        headers: { 'X-Trace': 'abc' },
+      })
+      .withResponse();
+
+    expect(data).toEqual({ ok: true });
+    expect(response.status).toBe(201);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://paycoinpro.com/api/v1/merchant/settings?dryRun=true',
+      expect.objectContaining({
+        method: 'PUT',
+        body: JSON.stringify({ webhookUrl: 'https://example.com/hooks' }),
+        headers: expect.objectContaining({
+          Authorization: 'Bearer pk_test_123',
+          'X-Trace': 'abc',
+        }),
+      })
+    );
+  });
+
+  it('should apply the client retry settings', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('Bad Gateway', { status: 502 }))
+      .mockResolvedValueOnce(Response.json({ balance: '10' }));
+    const client = new PayCoinPro({
+      apiKey: 'pk_test_123',
+      fetch: mockFetch,
+      maxRetries: 1,
+      retry: { baseDelay: 0 },
+    });
+
+    expect(await client.request('GET', '/balance')).toEqual({ balance: '10' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { APIClient } from '../src/lib/api.js';
-import { APIError, AuthenticationError, TimeoutError } from '../src/lib/errors.js';
+import {
+  APIError,
+  AuthenticationError,
+  InternalServerError,
+  RequestAbortedError,
+  TimeoutError,
+} from '../src/lib/errors.js';
+import { Invoices } from '../src/resources/invoices.js';
 
 describe('APIClient', () => {
   let mockFetch: ReturnType<typeof vi.fn>;
@@ -22,10 +29,7 @@ describe('APIClient', () => {
   });
 
   it('should make GET request with correct headers', async () => {
-    mockFetch.mockResolvedValue({
-      ok: true,
-      json: () => Promise.resolve({ id: '123' }),
-    });
+    mockFetch.mockResolvedValue(Response.json({ id: '123' }));
 
     const client = createClient();
     const result = await client.get('/invoices/123');
@@ -43,10 +47,7 @@ describe('APIClient', () => {
   });
 
   it('should make POST request with body', async () => {
-    mockFetch.mockResolvedValue({
-      ok: true,
-      json: () => Promise.resolve({ id: 'inv_123' }),
-    });
+    mockFetch.mockResolvedValue(Response.json({ id: 'inv_123' }));
 
     const client = createClient();
     await client.post('/invoices', { amount: 100 });
@@ -61,16 +62,82 @@ describe('APIClient', () => {
   });
 
   it('should throw AuthenticationError for 401', async () => {
-    mockFetch.mockResolvedValue({
-      ok: false,
-      status: 401,
-      json: () => Promise.resolve({ error: { code: 'invalid_key', message: 'Invalid API key' } }),
-    });
+    mockFetch.mockResolvedValue(
+      Response.json({ error: { code: 'invalid_key', message: 'Invalid API key' } }, { status: 401 })
+    );
 
     const client = createClient({ maxRetries: 0 });
     await expect(client.get('/invoices')).rejects.toThrow(AuthenticationError);
   });
 
+  it('should expose error details and the request id', async () => {
+    const body = {
+      error: 'Validation failed',
+      code: 'VALIDATION_ERROR',
+      details: { amount: 'must be positive' },
+    };
+    mockFetch.mockResolvedValue(
+      Response.json(body, { status: 400, headers: { 'x-request-id': 'req_abc' } })
+    );
+
+    const client = createClient({ maxRetries: 0 });
+    await expect(client.post('/invoices', { amount: -1 })).rejects.toMatchObject({
+      message: 'Validation failed',
+      code: 'VALIDATION_ERROR',
+      details: { amount: 'must be positive' },
+      requestId: 'req_abc',
+      body,
+    });
+  });
+
+  it('should turn non-JSON error pages into API errors and retry them', async () => {
+    const badGateway = () =>
+      new Response('<html><body>502 Bad Gateway</body></html>', {
+        status: 502,
+        headers: { 'Content-Type': 'text/html' },
+      });
+    mockFetch
+      .mockResolvedValueOnce(badGateway())
+      .mockResolvedValueOnce(badGateway())
+      .mockResolvedValueOnce(Response.json({ assets: [] }));
+
+    await expect(createClient().get('/assets')).rejects.toMatchObject({
+      name: 'InternalServerError',
+      status: 502,
+      body: '<html><body>502 Bad Gateway</body></html>',
+    });
+
+    const retrying = createClient({ maxRetries: 1, retry: { baseDelay: 0 } });
+    await expect(retrying.get('/assets')).resolves.toEqual({ assets: [] });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should handle empty and non-JSON success bodies', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+    await expect(createClient().get('/assets')).resolves.toBeUndefined();
+
+    mockFetch.mockResolvedValueOnce(new Response('', { status: 503 }));
+    const error = await createClient()
+      .get('/assets')
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(InternalServerError);
+    expect(error.body).toBeUndefined();
+
+    mockFetch.mockResolvedValueOnce(
+      new Response('<!doctype html>', { status: 200, headers: { 'Content-Type': 'text/html' } })
+    );
+    await expect(createClient().get('/assets')).rejects.toMatchObject({
+      message: 'Expected a JSON response, got text/html',
+      code: 'invalid_response',
+      isRetryable: false,
+    });
+  });
+
+  it('should return JSON string bodies', async () => {
+    mockFetch.mockResolvedValueOnce(Response.json('ok'));
+    await expect(createClient().request('GET', '/ping')).resolves.toBe('ok');
+  });
+
   it('should throw TimeoutError on abort', async () => {
     const abortError = new Error('aborted');
     abortError.name = 'AbortError';
@@ -82,15 +149,8 @@ describe('APIClient', () => {
 
   it('should retry on 500 error', async () => {
     mockFetch
-      .mockResolvedValueOnce({
-        ok: false,
-        status: 500,
-        json: () => Promise.resolve({ error: { message: 'Server error' } }),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve({ id: '123' }),
-      });
+      .mockResolvedValueOnce(Response.json({ error: { message: 'Server error' } }, { status: 500 }))
+      .mockResolvedValueOnce(Response.json({ id: '123' }));
 
     const client = createClient({ maxRetries: 1 });
     const result = await client.get('/invoices/123');
@@ -98,4 +158,155 @@ describe('APIClient', () => {
     expect(mockFetch).toHaveBeenCalledTimes(2);
     expect(result).toEqual({ id: '123' });
   });
+
+  it('should send explicit idempotency key as header', async () => {
+    mockFetch.mockResolvedValue(Response.json({ id: 'inv_123' }));
+
+    const client = createClient();
+    await client.post('/invoices', { amount: 100 }, { idempotencyKey: 'order-42' });
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init.headers['Idempotency-Key']).toBe('order-42');
+  });
+
+  it('should not generate idempotency key when retries are disabled', async () => {
+    mockFetch.mockResolvedValue(Response.json({ id: 'inv_123' }));
+
+    const client = createClient({ maxRetries: 0 });
+    await client.post('/invoices', { amount: 100 });
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init.headers['Idempotency-Key']).toBeUndefined();
+  });
+
+  it('should reuse the same generated idempotency key across retries', async () => {
+    mockFetch
+      .mockResolvedValueOnce(Response.json({ error: { message: 'Server error' } }, { status: 500 }))
+      .mockResolvedValueOnce(Response.json({ id: 'inv_123' }));
+
+    const client = createClient({ maxRetries: 1 });
+    await client.post('/invoices', { amount: 100 });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const firstKey = mockFetch.mock.calls[0][1].headers['Idempotency-Key'];
+    const secondKey = mockFetch.mock.calls[1][1].headers['Idempotency-Key'];
+    expect(firstKey).toMatch(/^[0-9a-f-]{36}$/);
+    expect(secondKey).toBe(firstKey);
+  });
+
+  it('should keep an idempotency key set through headers across retries', async () => {
+    mockFetch
+      .mockResolvedValueOnce(Response.json({ error: { message: 'Server error' } }, { status: 500 }))
+      .mockResolvedValueOnce(Response.json({ id: 'inv_123' }));
+
+    const client = createClient({ maxRetries: 1, retry: { baseDelay: 0 } });
+    await client.post('/invoices', { amount: 100 }, { headers: { 'idempotency-key': 'order-42' } });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    for (const [, init] of mockFetch.mock.calls) {
+      const keys = Object.entries(init.headers).filter(
+        ([name]) => name.toLowerCase() === 'idempotency-key'
+      );
+      expect(keys).toEqual([['Idempotency-Key', 'order-42']]);
+    }
+  });
+
+  it('should generate a new idempotency key for each logical request', async () => {
+    mockFetch.mockImplementation(async () => Response.json({ id: 'inv_123' }));
+
+    const client = createClient({ maxRetries: 2 });
+    await client.post('/invoices', { amount: 100 });
+    await client.post('/invoices', { amount: 100 });
+
+    const firstKey = mockFetch.mock.calls[0][1].headers['Idempotency-Key'];
+    const secondKey = mockFetch.mock.calls[1][1].headers['Idempotency-Key'];
+    expect(firstKey).toBeDefined();
+    expect(secondKey).not.toBe(firstKey);
+  });
+
+  it('should abort in-flight request when caller signal aborts', async () => {
+    mockFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            const error = new Error('aborted');
+            error.name = 'AbortError';
+            reject(error);
+          });
+        })
+    );
+
+    const controller = new AbortController();
+    const client = createClient({ maxRetries: 3 });
+    const promise = client.get('/invoices', undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toThrow(RequestAbortedError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call fetch when signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const client = createClient();
+    await expect(client.get('/invoices', undefined, { signal: controller.signal })).rejects.toThrow(
+      RequestAbortedError
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should cancel pending retry backoff when caller signal aborts', async () => {
+    mockFetch.mockResolvedValue(
+      Response.json({ error: { message: 'Server error' } }, { status: 500 })
+    );
+
+    const controller = new AbortController();
+    const client = createClient({ maxRetries: 3 });
+    const promise = client.get('/invoices', undefined, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    const start = Date.now();
+    await expect(promise).rejects.toThrow(RequestAbortedError);
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass request options through resource methods', async () => {
+    mockFetch.mockResolvedValue(Response.json({ id: 'inv_123' }));
+
+    const invoices = new Invoices(createClient());
+    await invoices.retrieve('inv_123', { headers: { 'X-Trace': 'abc' } });
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init.headers['X-Trace']).toBe('abc');
+  });
+
+  it('should send SDK User-Agent with app info', async () => {
+    mockFetch.mockResolvedValue(Response.json({}));
+
+    const client = createClient({ appInfo: { name: 'MyShop', version: '2.1.0' } });
+    await client.get('/assets');
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init.headers['User-Agent']).toMatch(/^paycoinpro-node\/\S+ node\/v\S+ MyShop\/2\.1\.0$/);
+  });
+
+  it('should merge default headers below per-request headers', async () => {
+    mockFetch.mockResolvedValue(Response.json({}));
+
+    const client = createClient({
+      defaultHeaders: { 'X-Tenant': 'acme', 'X-Env': 'prod', 'user-agent': 'proxy-agent' },
+    });
+    await client.get('/assets', undefined, { headers: { 'x-env': 'staging' } });
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(init.headers).toEqual({
+      'Content-Type': 'application/json',
+      'user-agent': 'proxy-agent',
+      Authorization: 'Bearer pk_test_123',
+      'X-Tenant': 'acme',
+      'x-env': 'staging',
+    });
+  });
 });
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import PayCoinPro from '../src/index.js';
+import { RequestAbortedError, ValidationError } from '../src/lib/errors.js';
+import { DEFAULT_ASSETS } from '../src/testing/index.js';
+
+describe('AssetCatalog', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  const assetsResponse = () => Response.json({ assets: DEFAULT_ASSETS });
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockImplementation(() => Promise.resolve(assetsResponse()));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should look up assets and networks regardless of case', async () => {
+    const { assetCatalog } = new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch });
+
+    expect((await assetCatalog.find('usdt'))?.name).toBe('Tether USD');
+    expect(await assetCatalog.find('doge')).toBeUndefined();
+    expect((await assetCatalog.networksFor('Btc')).map((n) => n.code)).toEqual(['bitcoin']);
+    expect(await assetCatalog.networksFor('doge')).toEqual([]);
+    expect(await assetCatalog.isSupported('USDT', 'BSC')).toBe(true);
+    expect(await assetCatalog.isSupported('eth')).toBe(true);
+    expect(await assetCatalog.isSupported('btc', 'bsc')).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one request between concurrent lookups', async () => {
+    const { assetCatalog } = new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch });
+
+    await Promise.all([assetCatalog.find('usdt'), assetCatalog.find('btc'), assetCatalog.list()]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep a shared request going when one caller aborts', async () => {
+    let respond = () => {};
+    mockFetch.mockImplementationOnce(
+      () => new Promise((resolve) => (respond = () => resolve(assetsResponse())))
+    );
+    const { assetCatalog } = new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch });
+    const controller = new AbortController();
+
+    const aborted = assetCatalog.find('usdt', { signal: controller.signal });
+    const other = assetCatalog.find('btc');
+    controller.abort();
+    respond();
+
+    await expect(aborted).rejects.toThrow(RequestAbortedError);
+    expect((await other)?.symbol).toBe('BTC');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch again once the TTL has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { assetCatalog } = new PayCoinPro({
+      apiKey: 'pk_test',
+      fetch: mockFetch,
+      assetCatalogTtlMs: 1000,
+    });
+
+    await assetCatalog.find('usdt');
+    vi.advanceTimersByTime(999);
+    await assetCatalog.find('usdt');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await assetCatalog.find('usdt');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    await assetCatalog.refresh();
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not cache failed fetches', async () => {
+    mockFetch.mockResolvedValueOnce(
+      Response.json({ error: { message: 'Invalid API key' } }, { status: 401 })
+    );
+    const { assetCatalog } = new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch });
+
+    await expect(assetCatalog.find('usdt')).rejects.toThrow('Invalid API key');
+    expect(await assetCatalog.isSupported('usdt')).toBe(true);
+  });
+});
+
+describe('validateAssets option', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi
+      .fn()
+      .mockImplementation(async (url: string) =>
+        Response.json(url.endsWith('/assets') ? { assets: DEFAULT_ASSETS } : { id: 'inv_1' })
+      );
+  });
+
+  it('should reject unsupported assets and networks before sending', async () => {
+    const client = new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch, validateAssets: true });
+
+    const error = await client.invoices
+      .create({ amount: 10, asset: 'usdt', network: 'bitcoin' })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues).toEqual([
+      {
+        path: '/network',
+        message: '"bitcoin" is not supported for USDT (supported: ethereum, bsc, polygon, tron)',
+      },
+    ]);
+
+    await expect(
+      client.depositAddresses.create({ asset: 'DOGE', network: 'dogecoin' })
+    ).rejects.toThrow('"DOGE" is not a supported asset');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await client.invoices.create({ amount: 10, asset: 'USDT', network: 'BSC' });
+    await client.invoices.create({ amount: 10 });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not send create options with the asset lookup', async () => {
+    const client = new PayCoinPro({
+      apiKey: 'pk_test',
+      fetch: mockFetch,
+      validateAssets: true,
+      maxRetries: 2,
+    });
+
+    await client.invoices.create(
+      { amount: 10, asset: 'usdt', network: 'bsc' },
+      { idempotencyKey: 'order-1', headers: { 'X-Trace': 'abc' } }
+    );
+
+    const [[assetsURL, assetsInit], [, createInit]] = mockFetch.mock.calls;
+    expect(assetsURL).toContain('/assets');
+    expect(assetsInit.headers).not.toHaveProperty('Idempotency-Key');
+    expect(assetsInit.headers).not.toHaveProperty('X-Trace');
+    expect(createInit.headers).toMatchObject({ 'Idempotency-Key': 'order-1', 'X-Trace': 'abc' });
+  });
+
+  it('should not fetch assets by default', async () => {
+    const client = new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch });
+
+    await client.invoices.create({ amount: 10, asset: 'doge', network: 'dogecoin' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toContain('/invoices');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { run } from '../src/cli/run.js';
+import { MockPayCoinProServer } from '../src/testing/index.js';
+
+describe('paycoinpro CLI', () => {
+  const server = new MockPayCoinProServer({ apiKey: 'pk_test_cli' });
+  const home = '/home/merchant';
+  let files: Record<string, string>;
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    files = {};
+  });
+
+  const cli = async (argv: string[], env: Record<string, string | undefined> = {}) => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const code = await run(argv, {
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+      env: { PAYCOINPRO_API_KEY: 'pk_test_cli', PAYCOINPRO_BASE_URL: server.baseURL, ...env },
+      homedir: home,
+      readFile: (path) => {
+        if (!(path in files)) {
+          throw Object.assign(new Error(`ENOENT: no such file, open '${path}'`), {
+            code: 'ENOENT',
+          });
+        }
+        return files[path];
+      },
+    });
+    return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+  };
+
+  it('should create and retrieve invoices', async () => {
+    const created = await cli([
+      'invoices',
+      'create',
+      '--amount',
+      '25.5',
+      '--order-id',
+      'order_7',
+      '--metadata',
+      'ticket=123',
+      '--json',
+    ]);
+    expect(created.code).toBe(0);
+    const { id } = JSON.parse(created.stdout);
+
+    const shown = await cli(['invoices', 'get', id]);
+    expect(shown.code).toBe(0);
+    expect(shown.stdout).toMatch(new RegExp(`^id\\s+${id}$`, 'm'));
+    expect(shown.stdout).toMatch(/^metadata\.ticket\s+123$/m);
+    expect(shown.stdout).toMatch(/^orderId\s+order_7$/m);
+  });
+
+  it('should print tables with a pagination hint, and fetch every page with --all', async () => {
+    for (let i = 0; i < 3; i++) {
+      await cli(['invoices', 'create', '--amount', String(10 + i)]);
+    }
+
+    const page = await cli(['invoices', 'list', '--limit', '2']);
+    const lines = page.stdout.split('\n');
+    expect(lines[0]).toMatch(/^ID\s+STATUS\s+AMOUNT\s+CRYPTO\s+RECEIVED\s+ORDER\s+CREATED$/);
+    expect(lines).toHaveLength(4);
+    expect(lines[3]).toBe('Showing 1-2 of 3. More results: --offset 2, or --all.');
+
+    const all = await cli(['invoices', 'list', '--limit', '2', '--all', '--json']);
+    expect(JSON.parse(all.stdout)).toHaveLength(3);
+  });
+
+  it('should manage deposit addresses and list deposits', async () => {
+    const created = await cli([
+      'addresses',
+      'create',
+      '--asset',
+      'usdt',
+      '--network',
+      'tron',
+      '--external-user-id',
+      'user_1',
+      '--json',
+    ]);
+    const address = JSON.parse(created.stdout);
+    await server.createDeposit(address.id, { amount: '12.5', notify: false });
+
+    const addresses = await cli(['addresses', 'list']);
+    expect(addresses.stdout).toContain(address.address);
+    expect(addresses.stdout).toContain('user_1');
+
+    const deposits = await cli(['deposits', 'list', '--address', address.id, '--all']);
+    expect(deposits.stdout).toMatch(/12\.5 USDT\s+tron/);
+  });
+
+  it('should list assets', async () => {
+    const { stdout } = await cli(['assets', 'list']);
+    expect(stdout).toMatch(/^USDT\s+Tether USD\s+ethereum, bsc, polygon, tron$/m);
+  });
+
+  it('should sign and verify webhooks without an API key', async () => {
+    const bodyFile = `${home}/body.json`;
+    files[bodyFile] = '{\n  "event": "deposit",\n  "status": "CONFIRMED"\n}\n';
+    const env = { PAYCOINPRO_API_KEY: undefined };
+
+    const signed = await cli(
+      ['webhooks', 'sign', '--secret', 'whsec_1', '--body-file', bodyFile],
+      env
+    );
+    expect(signed.code).toBe(0);
+    expect(signed.stdout).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+
+    const verified = await cli(
+      [
+        'webhooks',
+        'verify',
+        '--secret',
+        'whsec_old',
+        '--secret',
+        'whsec_1',
+        '--header',
+        signed.stdout,
+        '--body-file',
+        bodyFile,
+      ],
+      env
+    );
+    expect(verified.code).toBe(0);
+    expect(verified.stdout).toMatch(/^Signature valid \(secret #2, signed at /);
+    expect(verified.stdout).toMatch(/^status\s+CONFIRMED$/m);
+
+    const forged = await cli(
+      ['webhooks', 'verify', '--secret', 'whsec_2', '--header', signed.stdout, '--body', '{}'],
+      env
+    );
+    expect(forged.code).toBe(1);
+    expect(forged.stderr).toBe('error: Invalid webhook signature');
+  });
+
+  it('should read the API key from a profile', async () => {
+    const config = `${home}/.paycoinpro/config.json`;
+    const env = { PAYCOINPRO_API_KEY: undefined };
+
+    const unconfigured = await cli(['assets', 'list'], env);
+    expect(unconfigured.code).toBe(2);
+    expect(unconfigured.stderr).toContain(`add a "default" profile to ${config}`);
+
+    files[config] = JSON.stringify({
+      default: { apiKey: 'pk_wrong', baseURL: server.baseURL },
+      ops: { apiKey: 'pk_test_cli', baseURL: server.baseURL },
+    });
+
+    expect((await cli(['assets', 'list', '--profile', 'ops'], env)).code).toBe(0);
+    expect((await cli(['assets', 'list'], { ...env, PAYCOINPRO_PROFILE: 'ops' })).code).toBe(0);
+
+    const rejected = await cli(['assets', 'list'], env);
+    expect(rejected.code).toBe(1);
+    expect(rejected.stderr).toMatch(/^error: /);
+
+    const missing = await cli(['assets', 'list', '--profile', 'nope'], env);
+    expect(missing.code).toBe(2);
+    expect(missing.stderr).toContain(`Profile "nope" not found in ${config}`);
+
+    files['/etc/paycoinpro.json'] = '{ "default": ';
+    const corrupt = await cli(['assets', 'list'], {
+      ...env,
+      PAYCOINPRO_CONFIG: '/etc/paycoinpro.json',
+    });
+    expect(corrupt.code).toBe(2);
+    expect(corrupt.stderr).toContain('Cannot read /etc/paycoinpro.json: ');
+  });
+
+  it('should report usage errors with exit code 2', async () => {
+    const unknown = await cli(['invoices', 'delete']);
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toContain('Unknown command "invoices delete"');
+
+    const badFlag = await cli(['invoices', 'list', '--colour']);
+    expect(badFlag.code).toBe(2);
+    expect(badFlag.stderr).toContain('Run "paycoinpro invoices list --help" for usage.');
+
+    const notNumber = await cli(['invoices', 'create', '--amount', 'ten']);
+    expect(notNumber.stderr).toContain('--amount must be a number, got "ten"');
+
+    const missingId = await cli(['invoices', 'get']);
+    expect(missingId.stderr).toContain('Expected <id>');
+  });
+
+  it('should print help', async () => {
+    const { code, stdout } = await cli(['invoices', 'create', '--help']);
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/^Usage: paycoinpro invoices create \[options\]/);
+    expect(stdout).toMatch(/--amount <value>\s+Amount in fiat \(required\)/);
+    expect((await cli([])).stdout).toContain('webhooks verify');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { webcrypto } from 'crypto';
+import { Webhooks } from '../src/resources/webhooks.js';
+import {
+  signAsync,
+  verifyAsync,
+  verifyDetailedAsync,
+  WebhookVerificationError,
+} from '../src/edge.js';
+import fixtures from './fixtures/webhook-signatures.json';
+
+describe('Edge webhooks', () => {
+  const webhooks = new Webhooks();
+
+  beforeAll(() => {
+    // Node 18 only exposes Web Crypto through the crypto module
+    if (!globalThis.crypto) {
+      vi.stubGlobal('crypto', webcrypto);
+    }
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(fixtures[0].timestamp * 1000);
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe.each(fixtures)('$name', (fixture) => {
+    it('should sign identically to the Node implementation', async () => {
+      const header = await signAsync(fixture.payload, fixture.secrets, fixture.timestamp);
+      expect(header).toBe(fixture.header);
+      expect(header).toBe(webhooks.sign(fixture.payload, fixture.secrets, fixture.timestamp));
+    });
+
+    it('should verify with every secret like the Node implementation', async () => {
+      for (const secret of fixture.secrets) {
+        const edge = await verifyDetailedAsync(fixture.rawBody, fixture.header, secret);
+        const node = webhooks.verifyDetailed(fixture.rawBody, fixture.header, secret);
+        expect(edge).toEqual(node);
+        expect(edge.event).toEqual(fixture.payload);
+      }
+    });
+
+    it('should reject a tampered body like the Node implementation', async () => {
+      const tampered = fixture.rawBody.replace('100.5', '1000.5');
+      const secret = fixture.secrets[0];
+
+      await expect(verifyAsync(tampered, fixture.header, secret)).rejects.toThrow(
+        'Invalid webhook signature'
+      );
+      expect(() => webhooks.verify(tampered, fixture.header, secret)).toThrow(
+        'Invalid webhook signature'
+      );
+    });
+  });
+
+  it('should report the matching secret index during rotation', async () => {
+    const fixture = fixtures.find((f) => f.secrets.length > 1)!;
+    const result = await verifyDetailedAsync(fixture.rawBody, fixture.header, [
+      'whsec_unrelated',
+      fixture.secrets[1],
+    ]);
+
+    expect(result.secretIndex).toBe(1);
+  });
+
+  it('should reject malformed signatures', async () => {
+    const fixture = fixtures[0];
+    const header = `t=${fixture.timestamp},v1=not-hex`;
+
+    await expect(verifyAsync(fixture.rawBody, header, fixture.secrets[0])).rejects.toThrow(
+      WebhookVerificationError
+    );
+  });
+
+  it('should enforce timestamp tolerance', async () => {
+    const fixture = fixtures[0];
+    vi.setSystemTime((fixture.timestamp + 600) * 1000);
+
+    await expect(verifyAsync(fixture.rawBody, fixture.header, fixture.secrets[0])).rejects.toThrow(
+      'too old'
+    );
+    vi.setSystemTime(fixture.timestamp * 1000);
+  });
+});
@@ -4,10 +4,16 @@ import {
   APIError,
   BadRequestError,
   AuthenticationError,
+  PermissionDeniedError,
   NotFoundError,
+  ConflictError,
+  UnprocessableEntityError,
   RateLimitError,
+  InternalServerError,
   TimeoutError,
   ConnectionError,
+  RequestAbortedError,
+  WaitTimeoutError,
 } from '../src/lib/errors.js';
 
 describe('Errors', () => {
@@ -31,6 +37,102 @@ describe('Errors', () => {
     expect(APIError.fromResponse(500)).toBeInstanceOf(APIError);
   });
 
+  it('should map the remaining documented statuses', () => {
+    expect(APIError.fromResponse(403)).toBeInstanceOf(PermissionDeniedError);
+    expect(APIError.fromResponse(409)).toBeInstanceOf(ConflictError);
+    expect(APIError.fromResponse(422)).toBeInstanceOf(UnprocessableEntityError);
+    expect(APIError.fromResponse(500)).toBeInstanceOf(InternalServerError);
+
+    const badGateway = APIError.fromResponse(502, '<html>Bad Gateway</html>');
+    expect(badGateway).toBeInstanceOf(InternalServerError);
+    expect(badGateway.status).toBe(502);
+    expect(badGateway.message).toBe('Request failed with status 502');
+    expect(badGateway.body).toBe('<html>Bad Gateway</html>');
+
+    const teapot = APIError.fromResponse(418);
+    expect(teapot.constructor).toBe(APIError);
+    expect(teapot.name).toBe('APIError');
+  });
+
+  it('should flag retryable errors', () => {
+    expect(APIError.fromResponse(429).isRetryable).toBe(true);
+    expect(APIError.fromResponse(503).isRetryable).toBe(true);
+    expect(new TimeoutError().isRetryable).toBe(true);
+    expect(new ConnectionError().isRetryable).toBe(true);
+
+    expect(APIError.fromResponse(400).isRetryable).toBe(false);
+    expect(APIError.fromResponse(409).isRetryable).toBe(false);
+    expect(new RequestAbortedError().isRetryable).toBe(false);
+    expect(new PayCoinProError('boom').isRetryable).toBe(false);
+    const invoice = { id: 'inv_1', status: 'AWAITING' } as ConstructorParameters<
+      typeof WaitTimeoutError
+    >[0];
+    expect(new WaitTimeoutError(invoice, 1000).isRetryable).toBe(false);
+  });
+
+  it('should parse the documented ErrorResponse body', () => {
+    const body = {
+      error: 'Validation failed',
+      code: 'VALIDATION_ERROR',
+      details: [{ field: 'amount', message: 'must be positive' }],
+    };
+    const headers = new Headers({ 'X-Request-Id': 'req_123', 'Content-Type': 'application/json' });
+
+    const error = APIError.fromResponse(400, body, headers);
+
+    expect(error).toBeInstanceOf(BadRequestError);
+    expect(error.message).toBe('Validation failed');
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.details).toEqual(body.details);
+    expect(error.requestId).toBe('req_123');
+    expect(error.headers).toEqual({
+      'x-request-id': 'req_123',
+      'content-type': 'application/json',
+    });
+    expect(error.body).toBe(body);
+  });
+
+  it('should still parse the legacy nested error body', () => {
+    const error = APIError.fromResponse(401, {
+      error: { code: 'invalid_key', message: 'Invalid API key' },
+    });
+
+    expect(error.message).toBe('Invalid API key');
+    expect(error.code).toBe('invalid_key');
+    expect(error.requestId).toBeUndefined();
+  });
+
+  it('should fall back to a generic message for unknown bodies', () => {
+    const error = APIError.fromResponse(500, { message: 42 });
+
+    expect(error.message).toBe('Request failed with status 500');
+    expect(error.code).toBe('unknown_error');
+  });
+
+  it('should serialize every field with toJSON', () => {
+    const error = APIError.fromResponse(
+      429,
+      { error: 'Slow down', code: 'RATE_LIMITED' },
+      new Headers({ 'x-request-id': 'req_9' }),
+      30
+    );
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: 'RateLimitError',
+      message: 'Slow down',
+      status: 429,
+      code: 'RATE_LIMITED',
+      requestId: 'req_9',
+      headers: { 'x-request-id': 'req_9' },
+      body: { error: 'Slow down', code: 'RATE_LIMITED' },
+      retryAfter: 30,
+    });
+    expect(new TimeoutError().toJSON()).toEqual({
+      name: 'TimeoutError',
+      message: 'Request timed out',
+    });
+  });
+
   it('should create TimeoutError', () => {
     const error = new TimeoutError();
     expect(error.message).toBe('Request timed out');
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { APIClient } from '../src/lib/api.js';
+import { ConnectionError, NotFoundError } from '../src/lib/errors.js';
+import type { RequestHooks } from '../src/lib/hooks.js';
+
+describe('APIClient hooks', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+  });
+
+  const createClient = (hooks: RequestHooks | RequestHooks[], options = {}) =>
+    new APIClient({ apiKey: 'pk_test_123', fetch: mockFetch, hooks, ...options });
+
+  const ok = (data: unknown) => Response.json(data, { headers: { 'X-Request-Id': 'req_1' } });
+
+  it('should let beforeRequest change headers', async () => {
+    mockFetch.mockResolvedValue(ok({ id: 'inv_1' }));
+    const client = createClient({
+      beforeRequest: (context) => {
+        context.headers.traceparent = '00-abc-def-01';
+        delete context.headers['User-Agent'];
+      },
+    });
+
+    await client.post('/invoices', { amount: 100 });
+
+    const { headers } = mockFetch.mock.calls[0][1];
+    expect(headers.traceparent).toBe('00-abc-def-01');
+    expect(headers['User-Agent']).toBeUndefined();
+  });
+
+  it('should report responses with status, duration and attempt', async () => {
+    mockFetch.mockResolvedValue(ok({ id: 'inv_1' }));
+    const afterResponse = vi.fn();
+    const client = createClient({ afterResponse });
+
+    await client.post('/invoices', { amount: 100 });
+
+    expect(afterResponse).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'POST',
+        url: 'https://paycoinpro.com/api/v1/invoices',
+        headers: expect.objectContaining({ Authorization: 'Bearer pk_test_123' }),
+        body: { amount: 100 },
+        attempt: 0,
+        status: 200,
+        durationMs: expect.any(Number),
+        data: { id: 'inv_1' },
+      })
+    );
+    expect(afterResponse.mock.calls[0][0].responseHeaders.get('x-request-id')).toBe('req_1');
+  });
+
+  it('should call onError for every failed attempt', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(
+        Response.json({ error: { code: 'not_found', message: 'Not found' } }, { status: 404 })
+      );
+    const afterResponse = vi.fn();
+    const onError = vi.fn();
+    const client = createClient(
+      { afterResponse, onError },
+      { maxRetries: 1, retry: { baseDelay: 1, jitter: false } }
+    );
+
+    await expect(client.get('/invoices/inv_1')).rejects.toThrow(NotFoundError);
+
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[0][0].attempt).toBe(0);
+    expect(onError.mock.calls[0][0].status).toBeUndefined();
+    expect(onError.mock.calls[0][0].error).toBeInstanceOf(ConnectionError);
+    expect(onError.mock.calls[1][0]).toMatchObject({ attempt: 1, status: 404 });
+    expect(onError.mock.calls[1][0].error).toBeInstanceOf(NotFoundError);
+    expect(afterResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1, status: 404 })
+    );
+  });
+
+  it('should run multiple hook sets in order and await them', async () => {
+    mockFetch.mockResolvedValue(ok({}));
+    const calls: string[] = [];
+    const client = createClient([
+      {
+        beforeRequest: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          calls.push('first');
+        },
+      },
+      { beforeRequest: () => void calls.push('second') },
+    ]);
+
+    await client.get('/assets');
+
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  it('should fail the request when a hook throws', async () => {
+    const client = createClient({
+      beforeRequest: () => {
+        throw new Error('blocked by policy');
+      },
+    });
+
+    await expect(client.get('/assets')).rejects.toThrow('blocked by policy');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
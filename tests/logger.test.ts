@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import PayCoinPro from '../src/index.js';
+import { SDKLogger, redact } from '../src/lib/logger.js';
+import type { Logger } from '../src/lib/logger.js';
+
+const createLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+describe('redact', () => {
+  it('should hide credentials, customer emails and secrets at any depth', () => {
+    expect(
+      redact({
+        headers: { Authorization: 'Bearer pk_live_123', 'Content-Type': 'application/json' },
+        body: { amount: 10, customerEmail: 'jane@example.com', metadata: { apiKey: 'k' } },
+        options: [{ webhookSecret: 'whsec_1', secret: ['a', 'b'] }],
+      })
+    ).toEqual({
+      headers: { Authorization: '[REDACTED]', 'Content-Type': 'application/json' },
+      body: { amount: 10, customerEmail: '[REDACTED]', metadata: { apiKey: '[REDACTED]' } },
+      options: [{ webhookSecret: '[REDACTED]', secret: '[REDACTED]' }],
+    });
+  });
+
+  it('should summarize errors', () => {
+    expect(redact({ error: new TypeError('fetch failed') })).toEqual({
+      error: { name: 'TypeError', message: 'fetch failed' },
+    });
+  });
+});
+
+describe('SDKLogger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should only write messages at or above the level', () => {
+    const logger = createLogger();
+    const log = new SDKLogger({ logger, logLevel: 'info' });
+
+    log.debug('hidden');
+    log.info('shown', { a: 1 });
+    log.error('shown too');
+
+    expect(logger.debug).not.toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith('shown', { a: 1 });
+    expect(logger.error).toHaveBeenCalledWith('shown too', {});
+    expect(new SDKLogger({ logger, logLevel: 'off' }).enabled('error')).toBe(false);
+  });
+
+  it('should default to console warnings, or everything with debug', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+
+    new SDKLogger().debug('hidden');
+    new SDKLogger().warn('careful', { a: 1 });
+    new SDKLogger({ debug: true }).debug('shown');
+
+    expect(warn).toHaveBeenCalledWith('[PayCoinPro] careful', { a: 1 });
+    expect(debug).toHaveBeenCalledTimes(1);
+    expect(debug).toHaveBeenCalledWith('[PayCoinPro] shown', {});
+  });
+
+  it('should pass fields first to pino loggers', () => {
+    const pino = Object.assign(createLogger(), {
+      bindings: () => ({}),
+      levels: { values: { info: 30 }, labels: { 30: 'info' } },
+    });
+
+    new SDKLogger({ logger: pino, logLevel: 'info' }).info('Retrying request', { attempt: 1 });
+
+    expect(pino.info).toHaveBeenCalledWith({ attempt: 1 }, 'Retrying request');
+  });
+});
+
+describe('logger option', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let logger: ReturnType<typeof createLogger>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+    logger = createLogger();
+  });
+
+  const createClient = (options = {}) =>
+    new PayCoinPro({
+      apiKey: 'pk_test_123',
+      fetch: mockFetch,
+      logger: logger as Logger,
+      logLevel: 'debug',
+      ...options,
+    });
+
+  it('should log redacted requests and responses with latency and request id', async () => {
+    mockFetch.mockResolvedValue(
+      Response.json({ id: 'inv_1' }, { status: 201, headers: { 'X-Request-Id': 'req_42' } })
+    );
+
+    await createClient().invoices.create({ amount: 10, customerEmail: 'jane@example.com' });
+
+    expect(logger.debug).toHaveBeenCalledWith('Sending request', {
+      method: 'POST',
+      url: 'https://paycoinpro.com/api/v1/invoices',
+      attempt: 0,
+      headers: expect.objectContaining({ Authorization: '[REDACTED]' }),
+      body: { amount: 10, customerEmail: '[REDACTED]' },
+    });
+    expect(logger.debug).toHaveBeenCalledWith('Received response', {
+      method: 'POST',
+      url: 'https://paycoinpro.com/api/v1/invoices',
+      attempt: 0,
+      status: 201,
+      durationMs: expect.any(Number),
+      requestId: 'req_42',
+    });
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('pk_test_123');
+  });
+
+  it('should log retry decisions', async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        Response.json({ error: { code: 'unavailable', message: 'Down' } }, { status: 503 })
+      )
+      .mockResolvedValueOnce(
+        Response.json({ error: { code: 'bad_request', message: 'Bad' } }, { status: 400 })
+      );
+    const client = createClient({ maxRetries: 3, retry: { baseDelay: 1, jitter: false } });
+
+    await expect(client.assets.list()).rejects.toThrow('Bad');
+
+    expect(logger.info).toHaveBeenCalledWith('Retrying request', {
+      method: 'GET',
+      url: 'https://paycoinpro.com/api/v1/assets',
+      attempt: 1,
+      delayMs: 1,
+      status: 503,
+      error: {
+        name: 'InternalServerError',
+        message: 'Down',
+        status: 503,
+        code: 'unavailable',
+        headers: { 'content-type': 'application/json' },
+        body: { error: { code: 'unavailable', message: 'Down' } },
+      },
+    });
+    expect(logger.debug).toHaveBeenCalledWith(
+      'Request failed',
+      expect.objectContaining({ attempts: 2, status: 400 })
+    );
+  });
+
+  it('should log webhook verification without the secret', () => {
+    const client = createClient();
+    const payload = { event: 'deposit', status: 'CONFIRMED' };
+    const signature = client.webhooks.sign(payload, 'whsec_test');
+
+    client.webhooks.verify(JSON.stringify(payload), signature, 'whsec_test');
+    expect(() => client.webhooks.verify('{}', signature, 'whsec_test')).toThrow();
+
+    expect(logger.debug).toHaveBeenCalledWith('Verified webhook', {
+      event: 'deposit',
+      status: 'CONFIRMED',
+      secretIndex: 0,
+    });
+    expect(logger.info).toHaveBeenCalledWith('Webhook verification failed', {
+      error: { name: 'WebhookVerificationError', message: 'Invalid webhook signature' },
+    });
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('whsec_test');
+  });
+});
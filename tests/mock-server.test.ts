@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import PayCoinPro from '../src/index.js';
+import { AuthenticationError, NotFoundError, BadRequestError } from '../src/lib/errors.js';
+import { nodeWebhookHandler } from '../src/adapters/node.js';
+import { MockPayCoinProServer } from '../src/testing/index.js';
+
+describe('MockPayCoinProServer', () => {
+  const server = new MockPayCoinProServer({ apiKey: 'pk_test_123' });
+  let client: PayCoinPro;
+
+  beforeAll(async () => {
+    await server.start();
+    client = new PayCoinPro({ apiKey: 'pk_test_123', baseURL: server.baseURL });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('should create and retrieve invoices', async () => {
+    const created = await client.invoices.create({
+      amount: 100,
+      orderId: 'ORD-1',
+      asset: 'usdt',
+      network: 'bsc',
+    });
+
+    expect(created.status).toBe('AWAITING');
+    const invoice = await client.invoices.retrieve(created.id);
+    expect(invoice).toMatchObject({
+      id: created.id,
+      amount: 100,
+      amountCrypto: 100,
+      amountReceived: 0,
+      orderId: 'ORD-1',
+      asset: { symbol: 'USDT', network: { code: 'bsc' } },
+    });
+    expect(invoice.paymentAddress).toMatch(/^0x[0-9a-f]{40}$/);
+  });
+
+  it('should paginate invoices with offset pagination', async () => {
+    for (let i = 0; i < 5; i++) {
+      await client.invoices.create({ amount: 10 + i });
+    }
+
+    const page = await client.invoices.list({ limit: 2 });
+    expect(page.invoices).toHaveLength(2);
+    expect(page.pagination).toEqual({ total: 5, limit: 2, offset: 0, hasMore: true });
+
+    const all = await client.invoices.listAll({ limit: 2 }).toArray();
+    expect(all.map((invoice) => invoice.amount).sort()).toEqual([10, 11, 12, 13, 14]);
+  });
+
+  it('should return schema error envelopes', async () => {
+    await expect(client.invoices.retrieve('inv_missing')).rejects.toThrow(NotFoundError);
+    await expect(client.invoices.retrieve('inv_missing')).rejects.toMatchObject({
+      message: 'Invoice not found',
+      code: 'NOT_FOUND',
+    });
+    const unvalidated = new PayCoinPro({
+      apiKey: 'pk_test_123',
+      baseURL: server.baseURL,
+      validateRequests: false,
+    });
+    await expect(unvalidated.invoices.create({ amount: -1 })).rejects.toThrow(BadRequestError);
+
+    const unauthorized = new PayCoinPro({ apiKey: 'pk_wrong', baseURL: server.baseURL });
+    await expect(unauthorized.assets.list()).rejects.toThrow(AuthenticationError);
+
+    const response = await fetch(`${server.baseURL}/invoices/inv_missing`, {
+      headers: { Authorization: 'Bearer pk_test_123' },
+    });
+    expect(await response.json()).toEqual({ error: 'Invoice not found', code: 'NOT_FOUND' });
+  });
+
+  it('should list assets', async () => {
+    const { assets } = await client.assets.list();
+    expect(assets.map((asset) => asset.symbol)).toEqual(['USDT', 'BTC', 'ETH']);
+  });
+
+  it('should create deposit addresses and paginate deposits', async () => {
+    const address = await client.depositAddresses.create({
+      asset: 'usdt',
+      network: 'tron',
+      externalUserId: 'user_1',
+    });
+    for (let i = 1; i <= 3; i++) {
+      await server.createDeposit(address.id, { amount: `${i}.5`, notify: false });
+    }
+
+    const page = await client.deposits.list({ limit: 2 });
+    expect(page.deposits).toHaveLength(2);
+    expect(page.pagination.hasMore).toBe(true);
+    expect(page.pagination.nextCursor).toBe(page.deposits[1].id);
+
+    const all = await client.deposits.listAll({ limit: 2 }).toArray();
+    expect(all.map((deposit) => deposit.amount)).toEqual(['3.5', '2.5', '1.5']);
+
+    const { addresses } = await client.depositAddresses.list({ externalUserId: 'user_1' });
+    expect(addresses[0]).toMatchObject({ totalReceived: '7.5', paymentCount: 3 });
+  });
+
+  it('should reject unsupported asset/network pairs', async () => {
+    await expect(client.depositAddresses.create({ asset: 'btc', network: 'bsc' })).rejects.toThrow(
+      BadRequestError
+    );
+  });
+});
+
+describe('MockPayCoinProServer webhooks', () => {
+  it('should deliver signed webhooks that verify', async () => {
+    const handler = vi.fn();
+    const receiver = http.createServer(nodeWebhookHandler({ secret: 'whsec_mock', handler }));
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    const webhookUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+
+    const server = new MockPayCoinProServer({ webhookUrl, webhookSecret: 'whsec_mock' });
+    await server.start();
+
+    try {
+      const client = new PayCoinPro({ apiKey: 'pk_test', baseURL: server.baseURL });
+      const address = await client.depositAddresses.create({
+        asset: 'usdt',
+        network: 'bsc',
+        externalUserId: 'user_9',
+      });
+      await server.createDeposit(address.id, { amount: 25, txHash: '0xfeed' });
+
+      expect(server.sentWebhooks).toHaveLength(1);
+      expect(server.sentWebhooks[0].status).toBe(200);
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'deposit',
+          externalUserId: 'user_9',
+          txHash: '0xfeed',
+          amount: 25,
+        }),
+        expect.anything()
+      );
+    } finally {
+      await server.stop();
+      await new Promise((resolve) => receiver.close(resolve));
+    }
+  });
+});
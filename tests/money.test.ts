@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import PayCoinPro, { CryptoAmount } from '../src/index.js';
+import { numberSource, parseJSON } from '../src/lib/json.js';
+import { InvoiceSimulator, MockPayCoinProServer } from '../src/testing/index.js';
+
+describe('CryptoAmount', () => {
+  it('should parse strings and numbers exactly', () => {
+    const amount = CryptoAmount.from('100.5', 6, 'USDT');
+    expect(amount.units).toBe(100500000n);
+    expect(amount.decimals).toBe(6);
+    expect(amount.toString()).toBe('100.5');
+    expect(amount.toFixed()).toBe('100.500000');
+
+    expect(CryptoAmount.from(0.1).plus(0.2).toString()).toBe('0.3');
+    expect(CryptoAmount.from(1e-7).toString()).toBe('0.0000001');
+    expect(CryptoAmount.from('-2.50').units).toBe(-250n);
+    expect(CryptoAmount.from('1.123456789012345678', 18).units).toBe(1123456789012345678n);
+  });
+
+  it('should round extra digits half away from zero', () => {
+    expect(CryptoAmount.from('1.0000005', 6).toString()).toBe('1.000001');
+    expect(CryptoAmount.from('-1.0000005', 6).toString()).toBe('-1.000001');
+    expect(CryptoAmount.from('1.0000004', 6).toString()).toBe('1');
+  });
+
+  it('should reject invalid input', () => {
+    expect(() => CryptoAmount.from('1,5')).toThrow('Invalid amount');
+    expect(() => CryptoAmount.from(Number.NaN)).toThrow('Invalid amount');
+    expect(() => new CryptoAmount(1n, -1)).toThrow('Invalid decimals');
+  });
+
+  it('should do arithmetic across precisions', () => {
+    const wei = CryptoAmount.from('0.000000000000000001', 18, 'ETH');
+    const sum = CryptoAmount.from('1', 8, 'ETH').plus(wei);
+
+    expect(sum.decimals).toBe(18);
+    expect(sum.toString()).toBe('1.000000000000000001');
+    expect(sum.minus('1').equals(wei)).toBe(true);
+    expect(sum.symbol).toBe('ETH');
+    expect(CryptoAmount.from('100', 6).times('0.01').toString()).toBe('1');
+    expect(CryptoAmount.from('0.000003', 6).times('0.5').toString()).toBe('0.000002');
+  });
+
+  it('should compare amounts', () => {
+    const amount = CryptoAmount.from('99.9', 6);
+
+    expect(amount.compare('100')).toBe(-1);
+    expect(amount.lt(100)).toBe(true);
+    expect(amount.gte('99.900')).toBe(true);
+    expect(amount.gt('99.9')).toBe(false);
+    expect(amount.minus(amount).isZero()).toBe(true);
+    expect(amount.minus(100).isNegative()).toBe(true);
+  });
+
+  it('should refuse to combine different assets', () => {
+    const usdt = CryptoAmount.from('1', 6, 'USDT');
+    const btc = CryptoAmount.from('1', 8, 'BTC');
+
+    expect(() => usdt.plus(btc)).toThrow('Cannot combine USDT and BTC amounts');
+    expect(() => usdt.compare(btc)).toThrow('Cannot combine');
+  });
+
+  it('should format and serialize', () => {
+    const amount = CryptoAmount.from('1250000.5', 6, 'USDT');
+
+    expect(amount.format()).toBe('1,250,000.5 USDT');
+    expect(amount.format({ decimals: 2, grouping: false, symbol: false })).toBe('1250000.50');
+    expect(CryptoAmount.from('-1234').format()).toBe('-1,234');
+    expect(JSON.stringify({ amount })).toBe('{"amount":"1250000.5"}');
+    expect(amount.toNumber()).toBe(1250000.5);
+  });
+});
+
+describe('cryptoAmounts option', () => {
+  const server = new MockPayCoinProServer();
+  const sim = new InvoiceSimulator(server);
+  let client: PayCoinPro<true>;
+
+  beforeAll(async () => {
+    await server.start();
+    client = new PayCoinPro({ apiKey: 'pk_test', baseURL: server.baseURL, cryptoAmounts: true });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should convert invoice amounts with the asset decimals', async () => {
+    const { id } = await client.invoices.create({ amount: 100, asset: 'usdt', network: 'bsc' });
+    await sim.pay(id, { amount: 40.1 });
+
+    const invoice = await client.invoices.retrieve(id);
+    expect(invoice.amountReceived).toBeInstanceOf(CryptoAmount);
+    expect(invoice.amountReceived.decimals).toBe(6);
+    expect(invoice.amountReceived.symbol).toBe('USDT');
+    expect(invoice.amountCrypto?.minus(invoice.amountReceived).toString()).toBe('59.9');
+    expect(invoice.transactions?.[0].amount.toString()).toBe('40.1');
+
+    const { invoices } = await client.invoices.list();
+    expect(invoices[0].amountReceived).toBeInstanceOf(CryptoAmount);
+  });
+
+  it('should convert amounts of PENDING invoices, which have no asset', async () => {
+    const { id } = await client.invoices.create({ amount: 100 });
+
+    const invoice = await client.invoices.retrieve(id);
+    expect(invoice.asset).toBeNull();
+    expect(invoice.amountCrypto).toBeNull();
+    expect(invoice.amountReceived.isZero()).toBe(true);
+    expect(invoice.amountReceived.symbol).toBeNull();
+  });
+
+  it('should convert deposit and deposit address amounts', async () => {
+    const address = await client.depositAddresses.create({ asset: 'usdt', network: 'tron' });
+    expect(address.totalReceived.isZero()).toBe(true);
+
+    await server.createDeposit(address.id, { amount: '0.1', notify: false });
+    await server.createDeposit(address.id, { amount: '0.2', notify: false });
+
+    const deposits = await client.deposits.listAll().toArray();
+    const total = deposits.reduce((sum, deposit) => sum.plus(deposit.amount), CryptoAmount.from(0));
+    expect(total.toString()).toBe('0.3');
+
+    const [listed] = await client.depositAddresses.listAll().toArray();
+    expect(listed.totalReceived.equals(total)).toBe(true);
+  });
+
+  it('should convert webhook payloads', () => {
+    const payload = {
+      event: 'deposit',
+      status: 'CONFIRMED',
+      depositAddress: '0xabc',
+      externalUserId: null,
+      senderAddress: null,
+      txHash: '0x123',
+      amount: 100.5,
+      amountFiat: 100.5,
+      cryptoSymbol: 'USDT',
+      network: 'BSC',
+      networkName: 'BNB Smart Chain',
+      timestamp: '2025-12-22T10:31:00.000Z',
+    };
+    const body = JSON.stringify(payload);
+    const signature = client.webhooks.sign(payload, 'whsec_test');
+
+    const event = client.webhooks.verify(body, signature, 'whsec_test');
+    expect(event.event === 'deposit' && event.amount.format()).toBe('100.5 USDT');
+
+    const raw = new PayCoinPro({ apiKey: 'pk_test' }).webhooks.verify(
+      body,
+      signature,
+      'whsec_test'
+    );
+    expect(raw.event === 'deposit' && raw.amount).toBe(100.5);
+  });
+
+  it('should keep amounts with more digits than a double from responses', async () => {
+    const body =
+      '{"id":"inv_1","status":"PARTIAL","amountCrypto":2.5,"amountReceived":1.123456789012345678,' +
+      '"asset":{"symbol":"ETH","decimals":18},' +
+      '"transactions":[{"txHash":"0x1","amount":1.123456789012345678}]}';
+    const fetch = vi.fn().mockImplementation(async () => new Response(body));
+    const exact = new PayCoinPro({ apiKey: 'pk_test', fetch, cryptoAmounts: true });
+
+    const invoice = await exact.invoices.retrieve('inv_1');
+    expect(invoice.amountReceived.toString()).toBe('1.123456789012345678');
+    expect(invoice.transactions?.[0].amount.toString()).toBe('1.123456789012345678');
+    expect(invoice.amountCrypto?.toString()).toBe('2.5');
+
+    const raw = await new PayCoinPro({ apiKey: 'pk_test', fetch }).invoices.retrieve('inv_1');
+    expect(raw.amountReceived).toBe(1.123456789012345678);
+  });
+
+  it('should keep amounts with more digits than a double from webhook bodies', () => {
+    const body =
+      '{"event":"invoice","invoiceId":"inv_1","status":"PARTIAL","amountReceived":1.123456789012345678,' +
+      '"amountExpected":2.5,"cryptoSymbol":"ETH","network":"ETHEREUM","timestamp":"2025-12-22T10:31:00.000Z"}';
+    const signature = client.webhooks.sign(body, 'whsec_test');
+
+    const event = client.webhooks.verify(body, signature, 'whsec_test');
+    expect(event.event === 'invoice' && event.amountReceived.toString()).toBe(
+      '1.123456789012345678'
+    );
+  });
+});
+
+describe('parseJSON', () => {
+  it('should parse like JSON.parse and keep the text of lossy numbers', () => {
+    const text =
+      '{ "a\\"b": [1, [0.10000000000000000001, "x\\"]", null]], "n": 12345678901234567890,' +
+      ' "ok": 0.5, "e": 1E+2, "t": true, "f": false, "d": 1, "d": 9007199254740993 }';
+    const value = parseJSON(text) as Record<string, unknown>;
+
+    expect(value).toEqual(JSON.parse(text));
+    const nested = (value['a"b'] as unknown[])[1] as object;
+    expect(numberSource(nested, 0)).toBe('0.10000000000000000001');
+    expect(numberSource(value, 'n')).toBe('12345678901234567890');
+    expect(numberSource(value, 'd')).toBe('9007199254740993');
+    expect(numberSource(value, 'ok')).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { APIClient } from '../src/lib/api.js';
+import { Invoices } from '../src/resources/invoices.js';
+import { Deposits } from '../src/resources/deposits.js';
+
+describe('Pagination', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+  });
+
+  const createClient = () => new APIClient({ apiKey: 'pk_test_123', fetch: mockFetch });
+
+  const jsonResponse = (data: unknown) => Response.json(data);
+
+  it('should iterate over all offset-based pages', async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({
+          invoices: [{ id: 'inv_1' }, { id: 'inv_2' }],
+          pagination: { total: 3, limit: 2, offset: 0, hasMore: true },
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          invoices: [{ id: 'inv_3' }],
+          pagination: { total: 3, limit: 2, offset: 2, hasMore: false },
+        })
+      );
+
+    const invoices = new Invoices(createClient());
+    const ids: string[] = [];
+    for await (const invoice of invoices.listAll({ status: 'PAID', limit: 2 })) {
+      ids.push(invoice.id);
+    }
+
+    expect(ids).toEqual(['inv_1', 'inv_2', 'inv_3']);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const secondURL = new URL(mockFetch.mock.calls[1][0]);
+    expect(secondURL.searchParams.get('offset')).toBe('2');
+    expect(secondURL.searchParams.get('status')).toBe('PAID');
+  });
+
+  it('should stop fetching once toArray limit is reached', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({
+        invoices: [{ id: 'inv_1' }, { id: 'inv_2' }],
+        pagination: { total: 10, limit: 2, offset: 0, hasMore: true },
+      })
+    );
+
+    const invoices = new Invoices(createClient());
+    const result = await invoices.listAll().toArray({ limit: 2 });
+
+    expect(result).toHaveLength(2);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop on an empty page even if hasMore is set', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({
+        invoices: [],
+        pagination: { total: 0, limit: 20, offset: 0, hasMore: true },
+      })
+    );
+
+    const invoices = new Invoices(createClient());
+    expect(await invoices.listAll().toArray()).toEqual([]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should advance the offset for deposits', async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({
+          deposits: [{ id: 'dep_1' }, { id: 'dep_2' }],
+          pagination: { nextCursor: 'dep_2', hasMore: true },
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          deposits: [{ id: 'dep_3' }],
+          pagination: { nextCursor: null, hasMore: false },
+        })
+      );
+
+    const deposits = new Deposits(createClient());
+    const result = await deposits.listAll({ status: 'CONFIRMED', limit: 2 }).toArray();
+
+    expect(result.map((d) => d.id)).toEqual(['dep_1', 'dep_2', 'dep_3']);
+    const firstURL = new URL(mockFetch.mock.calls[0][0]);
+    const secondURL = new URL(mockFetch.mock.calls[1][0]);
+    expect(firstURL.searchParams.get('offset')).toBe('0');
+    expect(secondURL.searchParams.get('offset')).toBe('2');
+    expect(secondURL.searchParams.has('cursor')).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PayCoinPro from '../src/index.js';
+import { ValidationError } from '../src/lib/errors.js';
+import {
+  validateDepositAddressParams,
+  validateInvoiceParams,
+} from '../src/lib/request-validation.js';
+import type { CreateInvoiceRequest } from '../src/types/index.js';
+
+describe('validateInvoiceParams', () => {
+  it('should accept valid parameters', () => {
+    expect(
+      validateInvoiceParams({
+        amount: 99.99,
+        expiresIn: 60,
+        underpaymentTolerance: 0.5,
+        metadata: { plan: 'pro', seats: 3, trial: false, coupon: null },
+        asset: 'usdt',
+        network: 'bsc',
+        callbackUrl: 'https://example.com/webhooks',
+      })
+    ).toEqual([]);
+  });
+
+  it('should report every violated field', () => {
+    const metadata: Record<string, unknown> = { nested: { a: 1 } };
+    for (let i = 0; i < 20; i++) {
+      metadata[`key${i}`] = i;
+    }
+
+    const issues = validateInvoiceParams({
+      amount: 0,
+      expiresIn: 45,
+      underpaymentTolerance: 5,
+      metadata,
+      asset: 'usdt',
+      successUrl: 'javascript:alert(1)',
+    } as unknown as CreateInvoiceRequest);
+
+    expect(issues).toEqual([
+      { path: '/amount', message: 'must be a positive number' },
+      { path: '/expiresIn', message: 'must be 30, 60 or 120 (minutes)' },
+      { path: '/underpaymentTolerance', message: 'must be between 0.1 and 1 (percent)' },
+      { path: '/metadata', message: 'must have at most 20 keys, got 21' },
+      { path: '/metadata/nested', message: 'must be a string, number, boolean or null' },
+      { path: '/network', message: 'is required when asset is set' },
+      { path: '/successUrl', message: 'must be an http or https URL' },
+    ]);
+  });
+});
+
+describe('validateDepositAddressParams', () => {
+  it('should check lengths and ranges', () => {
+    expect(
+      validateDepositAddressParams({ asset: 'usdt', network: 'bsc', expiryDays: 365 })
+    ).toEqual([]);
+    expect(
+      validateDepositAddressParams({
+        asset: '',
+        network: 'bsc',
+        externalUserId: 'x'.repeat(256),
+        expiryDays: 0,
+      })
+    ).toEqual([
+      { path: '/asset', message: 'is required' },
+      { path: '/externalUserId', message: 'must be at most 255 characters' },
+      { path: '/expiryDays', message: 'must be a whole number from 1 to 365' },
+    ]);
+  });
+
+  it('should allow null expiryDays for addresses that never expire', () => {
+    expect(
+      validateDepositAddressParams({
+        asset: 'usdt',
+        network: 'bsc',
+        expiryDays: null as unknown as number,
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('create validation', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockResolvedValue(Response.json({ id: 'inv_123' }));
+  });
+
+  it('should throw ValidationError without sending the request', async () => {
+    const client = new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch });
+
+    const error = await client.invoices
+      .create({ amount: 10, expiresIn: 15 as 30 })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues).toEqual([
+      { path: '/expiresIn', message: 'must be 30, 60 or 120 (minutes)' },
+    ]);
+    expect((error as Error).message).toBe(
+      'Invalid invoice parameters:\n/expiresIn: must be 30, 60 or 120 (minutes)'
+    );
+    await expect(
+      client.depositAddresses.create({ asset: 'usdt', network: 'bsc', expiryDays: 400 })
+    ).rejects.toThrow(ValidationError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should send the request when validateRequests is false', async () => {
+    const client = new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch, validateRequests: false });
+
+    await client.invoices.create({ amount: 10, expiresIn: 15 as 30 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
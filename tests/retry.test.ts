@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { APIClient } from '../src/lib/api.js';
+import {
+  APIError,
+  ConnectionError,
+  InternalServerError,
+  RateLimitError,
+  TimeoutError,
+} from '../src/lib/errors.js';
+import { getRetryDelay, isRetryable, parseRetryAfter } from '../src/lib/retry.js';
+
+describe('Retry policy', () => {
+  it('should retry idempotent requests on 429, 5xx and network errors', () => {
+    expect(isRetryable(new RateLimitError('slow down'), 'GET', false)).toBe(true);
+    expect(isRetryable(new APIError('boom', 503), 'GET', false)).toBe(true);
+    expect(isRetryable(new TimeoutError(), 'GET', false)).toBe(true);
+    expect(isRetryable(new ConnectionError(), 'GET', false)).toBe(true);
+    expect(isRetryable(new APIError('bad', 400), 'GET', false)).toBe(false);
+    expect(isRetryable(new Error('unexpected'), 'GET', false)).toBe(false);
+  });
+
+  it('should only retry POST when an idempotency key is present', () => {
+    expect(isRetryable(new TimeoutError(), 'POST', false)).toBe(false);
+    expect(isRetryable(new TimeoutError(), 'POST', true)).toBe(true);
+  });
+
+  it('should compute capped exponential backoff without jitter', () => {
+    const policy = { baseDelay: 100, maxDelay: 500, jitter: false };
+    expect(getRetryDelay(new TimeoutError(), 0, policy)).toBe(100);
+    expect(getRetryDelay(new TimeoutError(), 2, policy)).toBe(400);
+    expect(getRetryDelay(new TimeoutError(), 5, policy)).toBe(500);
+  });
+
+  it('should apply full jitter by default', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getRetryDelay(new TimeoutError(), 1, { baseDelay: 100 })).toBe(100);
+    vi.restoreAllMocks();
+  });
+
+  it('should prefer Retry-After from rate limit errors', () => {
+    const error = new RateLimitError('slow down', 'rate_limit', 3);
+    expect(getRetryDelay(error, 0, { baseDelay: 100 })).toBe(3000);
+  });
+
+  it('should cap Retry-After at maxDelay', () => {
+    const error = new RateLimitError('slow down', 'rate_limit', 86_400);
+    expect(getRetryDelay(error, 0)).toBe(30_000);
+    expect(getRetryDelay(error, 0, { maxDelay: 5000 })).toBe(5000);
+  });
+
+  it('should prefer Retry-After from other retryable API errors', () => {
+    const unavailable = new InternalServerError('maintenance', 503, 'unavailable', {
+      retryAfter: 4,
+    });
+    expect(getRetryDelay(unavailable, 0, { baseDelay: 100 })).toBe(4000);
+    expect(getRetryDelay(unavailable, 0, { maxDelay: 1000 })).toBe(1000);
+
+    const badRequest = new APIError('bad', 400, 'bad', { retryAfter: 4 });
+    expect(getRetryDelay(badRequest, 0, { baseDelay: 100, jitter: false })).toBe(100);
+  });
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter(new Headers({ 'Retry-After': '7' }), now)).toBe(7);
+    expect(
+      parseRetryAfter(new Headers({ 'Retry-After': 'Wed, 01 Jan 2025 00:00:10 GMT' }), now)
+    ).toBe(10);
+  });
+
+  it('should parse rate limit reset headers', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter(new Headers({ 'X-RateLimit-Reset': '5' }), now)).toBe(5);
+    expect(
+      parseRetryAfter(new Headers({ 'X-RateLimit-Reset': String(now / 1000 + 12) }), now)
+    ).toBe(12);
+    expect(parseRetryAfter(new Headers(), now)).toBeUndefined();
+  });
+});
+
+describe('APIClient retries', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+  });
+
+  it('should expose retryAfter on RateLimitError', async () => {
+    mockFetch.mockResolvedValue(
+      Response.json(
+        { error: { code: 'rate_limit', message: 'Too many requests' } },
+        { status: 429, headers: { 'Retry-After': '2' } }
+      )
+    );
+
+    const client = new APIClient({ apiKey: 'pk_test_123', fetch: mockFetch });
+    const error = await client.get('/invoices').catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(2);
+  });
+
+  it('should wait for Retry-After on a 503', async () => {
+    const retryAt = new Date(Date.now() + 60_000).toUTCString();
+    mockFetch
+      .mockResolvedValueOnce(
+        Response.json(
+          { error: 'Down for maintenance', code: 'maintenance' },
+          { status: 503, headers: { 'Retry-After': retryAt } }
+        )
+      )
+      .mockResolvedValueOnce(
+        Response.json(
+          { error: 'Down for maintenance' },
+          { status: 503, headers: { 'Retry-After': '0' } }
+        )
+      )
+      .mockResolvedValueOnce(Response.json({ invoices: [] }));
+
+    const first = await new APIClient({ apiKey: 'pk_test_123', fetch: mockFetch })
+      .get('/invoices')
+      .catch((e) => e);
+    expect(first).toBeInstanceOf(InternalServerError);
+    expect(first.retryAfter).toBeGreaterThanOrEqual(59);
+
+    // A 60s base delay would time the test out unless Retry-After: 0 is honored
+    const client = new APIClient({
+      apiKey: 'pk_test_123',
+      fetch: mockFetch,
+      maxRetries: 1,
+      retry: { baseDelay: 60_000, jitter: false },
+    });
+    await expect(client.get('/invoices')).resolves.toEqual({ invoices: [] });
+  });
+
+  it('should consult the shouldRetry hook', async () => {
+    mockFetch.mockImplementation(async () =>
+      Response.json({ error: { code: 'bad', message: 'Bad request' } }, { status: 400 })
+    );
+    const shouldRetry = vi.fn().mockReturnValueOnce(true).mockReturnValue(false);
+
+    const client = new APIClient({
+      apiKey: 'pk_test_123',
+      fetch: mockFetch,
+      maxRetries: 3,
+      retry: { baseDelay: 0, shouldRetry },
+    });
+
+    await expect(client.get('/invoices')).rejects.toThrow(APIError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(shouldRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 0, method: 'GET', defaultDecision: false })
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import PayCoinPro from '../src/index.js';
+import type { WebhookEvent } from '../src/index.js';
+import { nodeWebhookHandler } from '../src/adapters/node.js';
+import { InvoiceSimulator, MockPayCoinProServer } from '../src/testing/index.js';
+
+describe('InvoiceSimulator', () => {
+  const received: WebhookEvent[] = [];
+  const receiver = http.createServer(
+    nodeWebhookHandler({
+      secret: 'whsec_sim',
+      handler: (event) => {
+        received.push(event);
+      },
+    })
+  );
+  let server: MockPayCoinProServer;
+  let client: PayCoinPro;
+  let sim: InvoiceSimulator;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    const webhookUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+    server = new MockPayCoinProServer({ webhookUrl, webhookSecret: 'whsec_sim' });
+    await server.start();
+    client = new PayCoinPro({ apiKey: 'pk_test', baseURL: server.baseURL });
+    sim = new InvoiceSimulator(server);
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  beforeEach(() => {
+    server.reset();
+    received.length = 0;
+  });
+
+  it('should move from PENDING through PARTIAL to PAID', async () => {
+    const created = await client.invoices.create({ amount: 100, orderId: 'ORD-1' });
+    expect(created.status).toBe('PENDING');
+
+    sim.select(created.id, { asset: 'USDT', network: 'bsc' });
+    expect((await client.invoices.retrieve(created.id)).status).toBe('AWAITING');
+
+    await sim.pay(created.id, { amount: 60, txHash: '0xaaa' });
+    let invoice = await client.invoices.retrieve(created.id);
+    expect(invoice).toMatchObject({ status: 'PARTIAL', amountReceived: 60, paidAt: null });
+
+    await sim.pay(created.id, { amount: 40, txHash: '0xbbb' });
+    invoice = await client.invoices.retrieve(created.id);
+    expect(invoice.status).toBe('PAID');
+    expect(invoice.paidAt).not.toBeNull();
+    expect(invoice.transactions?.map((tx) => tx.txHash)).toEqual(['0xaaa', '0xbbb']);
+
+    expect(received.map((event) => event.status)).toEqual(['PARTIAL', 'PAID']);
+    expect(received[1]).toMatchObject({
+      event: 'invoice',
+      invoiceId: created.id,
+      orderId: 'ORD-1',
+      txHash: '0xbbb',
+      amountReceived: 100,
+      amountExpected: 100,
+      cryptoSymbol: 'USDT',
+      network: 'bsc',
+    });
+    expect(server.sentWebhooks.every((webhook) => webhook.status === 200)).toBe(true);
+  });
+
+  it('should mark payments above the expected amount as OVERPAID', async () => {
+    const created = await client.invoices.create({ amount: 100, asset: 'usdt', network: 'bsc' });
+
+    const invoice = await sim.pay(created.id, { amount: 120 });
+    expect(invoice.status).toBe('OVERPAID');
+    expect(received[0]).toMatchObject({ status: 'OVERPAID', amountReceived: 120 });
+  });
+
+  it('should accept payments within the underpayment tolerance', async () => {
+    const strict = await client.invoices.create({ amount: 100, asset: 'usdt', network: 'bsc' });
+    expect((await sim.pay(strict.id, { amount: 99.5 })).status).toBe('PARTIAL');
+
+    const lenient = await client.invoices.create({
+      amount: 100,
+      asset: 'usdt',
+      network: 'bsc',
+      underpaymentTolerance: 1,
+    });
+    expect((await sim.pay(lenient.id, { amount: 99.5 })).status).toBe('PAID');
+  });
+
+  it('should expire unpaid invoices and underpay partial ones', async () => {
+    const unpaid = await client.invoices.create({ amount: 50 });
+    await sim.expire(unpaid.id);
+    expect((await client.invoices.retrieve(unpaid.id)).status).toBe('EXPIRED');
+
+    const partial = await client.invoices.create({ amount: 50, asset: 'usdt', network: 'bsc' });
+    await sim.pay(partial.id, { amount: 10 });
+    await sim.expire(partial.id);
+    expect((await client.invoices.retrieve(partial.id)).status).toBe('UNDERPAID');
+
+    expect(received.map((event) => event.status)).toEqual(['EXPIRED', 'PARTIAL', 'UNDERPAID']);
+  });
+
+  it('should reject invalid transitions', async () => {
+    const pending = await client.invoices.create({ amount: 10 });
+    await expect(sim.pay(pending.id, { amount: 10 })).rejects.toThrow(/Call select\(\) first/);
+
+    sim.select(pending.id, { asset: 'usdt', network: 'bsc' });
+    await expect(sim.pay(pending.id, { amount: 0 })).rejects.toThrow(/must be positive/);
+    await sim.pay(pending.id, { amount: 10 });
+
+    await expect(sim.pay(pending.id, { amount: 1 })).rejects.toThrow(/in status PAID/);
+    await expect(sim.expire(pending.id)).rejects.toThrow(/in status PAID/);
+    await expect(sim.expire('inv_missing')).rejects.toThrow(/Invoice not found/);
+  });
+});
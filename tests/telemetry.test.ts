@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { context, propagation, trace, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import PayCoinPro from '../src/index.js';
+import { NotFoundError } from '../src/lib/errors.js';
+import { routeTemplate } from '../src/lib/telemetry.js';
+
+describe('OpenTelemetry instrumentation', () => {
+  const exporter = new InMemorySpanExporter();
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeAll(() => {
+    trace.setGlobalTracerProvider(
+      new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+    );
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  });
+
+  afterAll(() => {
+    trace.disable();
+    propagation.disable();
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    mockFetch = vi.fn();
+  });
+
+  const respond = (status: number, body: unknown) => Response.json(body, { status });
+
+  const createClient = (options = {}) =>
+    new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch, ...options });
+
+  it('should record a client span with the route template and propagate it', async () => {
+    mockFetch.mockResolvedValue(respond(200, { id: 'inv_123' }));
+
+    await createClient().invoices.retrieve('inv_123');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe('GET /invoices/{id}');
+    expect(span.kind).toBe(SpanKind.CLIENT);
+    expect(span.attributes).toMatchObject({
+      'http.request.method': 'GET',
+      'url.full': 'https://paycoinpro.com/api/v1/invoices/inv_123',
+      'url.template': '/invoices/{id}',
+      'http.response.status_code': 200,
+    });
+    expect(span.attributes['http.request.resend_count']).toBeUndefined();
+
+    const { headers } = mockFetch.mock.calls[0][1];
+    const { traceId, spanId } = span.spanContext();
+    expect(headers.traceparent).toBe(`00-${traceId}-${spanId}-01`);
+  });
+
+  it('should count retries and record errors with the API error code', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond(503, { error: { code: 'unavailable', message: 'Down' } }))
+      .mockResolvedValueOnce(respond(404, { error: { code: 'not_found', message: 'Not found' } }));
+    const client = createClient({ maxRetries: 2, retry: { baseDelay: 1, jitter: false } });
+
+    await expect(client.invoices.retrieve('inv_404')).rejects.toThrow(NotFoundError);
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].attributes).toMatchObject({
+      'http.response.status_code': 404,
+      'http.request.resend_count': 1,
+      'error.type': 'NotFoundError',
+      'paycoinpro.error.code': 'not_found',
+    });
+    expect(spans[0].status).toEqual({ code: SpanStatusCode.ERROR, message: 'Not found' });
+  });
+
+  it('should nest request spans under the active span', async () => {
+    mockFetch.mockResolvedValue(respond(200, { assets: [] }));
+    const client = createClient();
+
+    await trace.getTracer('test').startActiveSpan('checkout', async (parent) => {
+      await client.assets.list();
+      parent.end();
+    });
+
+    const [child, parent] = exporter.getFinishedSpans();
+    expect(child.name).toBe('GET /assets');
+    expect(child.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+    expect(child.spanContext().traceId).toBe(parent.spanContext().traceId);
+  });
+
+  it('should record webhook verification', () => {
+    const client = createClient();
+    const payload = { event: 'invoice', invoiceId: 'inv_1', status: 'PAID' };
+    const signature = client.webhooks.sign(payload, 'whsec_test');
+
+    client.webhooks.verify(JSON.stringify(payload), signature, ['whsec_old', 'whsec_test']);
+    expect(() => client.webhooks.verify('{}', signature, 'whsec_test')).toThrow();
+
+    const [verified, failed] = exporter.getFinishedSpans();
+    expect(verified.name).toBe('PayCoinPro webhook verify');
+    expect(verified.attributes).toEqual({
+      'paycoinpro.webhook.event': 'invoice',
+      'paycoinpro.webhook.status': 'PAID',
+      'paycoinpro.webhook.secret_index': 1,
+    });
+    expect(failed.status.code).toBe(SpanStatusCode.ERROR);
+    expect(failed.attributes['error.type']).toBe('WebhookVerificationError');
+  });
+
+  it('should record nothing when tracing is disabled', async () => {
+    mockFetch.mockResolvedValue(respond(200, { assets: [] }));
+    const client = createClient({ tracing: false });
+
+    await client.assets.list();
+    const payload = { event: 'deposit', status: 'CONFIRMED' };
+    client.webhooks.verify(
+      JSON.stringify(payload),
+      client.webhooks.sign(payload, 'whsec_test'),
+      'whsec_test'
+    );
+
+    expect(exporter.getFinishedSpans()).toEqual([]);
+    expect(mockFetch.mock.calls[0][1].headers.traceparent).toBeUndefined();
+  });
+});
+
+describe('routeTemplate', () => {
+  it('should replace ids with placeholders', () => {
+    expect(routeTemplate('/invoices')).toBe('/invoices');
+    expect(routeTemplate('/invoices/inv_123')).toBe('/invoices/{id}');
+    expect(routeTemplate('deposit-addresses/da_1/deposits')).toBe(
+      '/deposit-addresses/{id}/deposits'
+    );
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from 'vitest';
+import PayCoinPro from '../src/index.js';
+import { ResponseValidationError } from '../src/lib/errors.js';
+import { invoiceListSchema, webhookEventSchema } from '../src/lib/schemas.js';
+import { object, record, string, validate } from '../src/lib/validation.js';
+import { InvoiceSimulator, MockPayCoinProServer } from '../src/testing/index.js';
+
+const invoice = {
+  id: 'inv_1',
+  amount: 100,
+  currency: 'USD',
+  amountCrypto: 100,
+  amountReceived: 0,
+  status: 'AWAITING',
+  asset: {
+    symbol: 'USDT',
+    name: 'Tether USD',
+    decimals: 6,
+    iconUrl: null,
+    network: { code: 'bsc', name: 'BNB Smart Chain' },
+  },
+  paymentAddress: '0xabc',
+  orderId: null,
+  customerEmail: null,
+  metadata: null,
+  expiresAt: null,
+  paidAt: null,
+  createdAt: '2024-01-15T11:00:00.000Z',
+  updatedAt: '2024-01-15T11:00:00.000Z',
+  paymentUrl: 'https://pay.paycoinpro.com/pay/inv_1',
+};
+
+const invoiceList = {
+  invoices: [invoice],
+  pagination: { total: 1, limit: 20, offset: 0, hasMore: false },
+};
+
+describe('validate', () => {
+  it('should accept valid responses and unknown extra fields', () => {
+    expect(validate(invoiceListSchema, invoiceList)).toEqual([]);
+    expect(validate(invoiceListSchema, { ...invoiceList, newField: true })).toEqual([]);
+  });
+
+  it('should report every issue with a JSON pointer', () => {
+    const { paymentUrl: _omitted, ...withoutUrl } = invoice;
+    const issues = validate(invoiceListSchema, {
+      invoices: [invoice, { ...withoutUrl, status: 'REFUNDED', amountReceived: null, asset: null }],
+      pagination: { total: '1', limit: 20, offset: 0, hasMore: false },
+    });
+
+    expect(issues).toEqual([
+      { path: '/invoices/1/amountReceived', message: 'expected number, got null' },
+      {
+        path: '/invoices/1/status',
+        message:
+          'expected one of "PENDING", "AWAITING", "PAID", "EXPIRED", "PARTIAL", "UNDERPAID", "OVERPAID", got "REFUNDED"',
+      },
+      { path: '/invoices/1/paymentUrl', message: 'required property is missing' },
+      { path: '/pagination/total', message: 'expected number, got "1"' },
+    ]);
+  });
+
+  it('should report a missing root structure', () => {
+    expect(validate(invoiceListSchema, [])).toEqual([
+      { path: '', message: 'expected object, got array' },
+    ]);
+    expect(validate(invoiceListSchema, { pagination: invoiceList.pagination })).toEqual([
+      { path: '/invoices', message: 'required property is missing' },
+    ]);
+  });
+
+  it('should escape JSON pointer segments', () => {
+    const schema = object({ 'a/b~c': object({ name: string }), meta: record });
+    expect(validate(schema, { 'a/b~c': { name: 1 }, meta: {} })).toEqual([
+      { path: '/a~1b~0c/name', message: 'expected string, got number 1' },
+    ]);
+  });
+
+  it('should pick webhook schemas by event', () => {
+    expect(validate(webhookEventSchema, { event: 'refund' })).toEqual([
+      { path: '/event', message: 'expected one of "invoice", "deposit", got "refund"' },
+    ]);
+  });
+});
+
+describe('validateResponses option', () => {
+  const mockFetch = vi.fn();
+
+  const respond = (body: unknown) => mockFetch.mockImplementation(async () => Response.json(body));
+
+  const createClient = (validateResponses: 'off' | 'warn' | 'strict') =>
+    new PayCoinPro({ apiKey: 'pk_test', fetch: mockFetch, maxRetries: 2, validateResponses });
+
+  afterEach(() => {
+    mockFetch.mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it('should throw ResponseValidationError in strict mode without retrying', async () => {
+    respond({ ...invoiceList, pagination: null });
+
+    const error = await createClient('strict')
+      .invoices.list()
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect((error as ResponseValidationError).source).toBe('GET /invoices response');
+    expect((error as ResponseValidationError).issues).toEqual([
+      { path: '/pagination', message: 'expected object, got null' },
+    ]);
+    expect((error as Error).message).toContain('/pagination: expected object, got null');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log and return the response in warn mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    respond({ ...invoice, status: 'REFUNDED' });
+
+    const result = await createClient('warn').invoices.retrieve('inv_1');
+
+    expect(result.status).toBe('REFUNDED');
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('/status: expected one of'),
+      expect.objectContaining({ source: 'GET /invoices/inv_1 response' })
+    );
+  });
+
+  it('should skip validation by default', async () => {
+    const warn = vi.spyOn(console, 'warn');
+    respond({ assets: 'none' });
+
+    await expect(createClient('off').assets.list()).resolves.toEqual({ assets: 'none' });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should validate webhook payloads after verifying the signature', () => {
+    const client = createClient('strict');
+    const payload = { event: 'deposit', status: 'PENDING', amount: '1' };
+    const signature = client.webhooks.sign(payload, 'whsec_test');
+
+    expect(() => client.webhooks.verify(JSON.stringify(payload), signature, 'whsec_test')).toThrow(
+      ResponseValidationError
+    );
+    expect(() => client.webhooks.verify(JSON.stringify(payload), signature, 'whsec_other')).toThrow(
+      'Invalid webhook signature'
+    );
+  });
+});
+
+describe('MockPayCoinProServer schema conformance', () => {
+  const server = new MockPayCoinProServer();
+  let client: PayCoinPro;
+
+  beforeAll(async () => {
+    await server.start();
+    client = new PayCoinPro({
+      apiKey: 'pk_test',
+      baseURL: server.baseURL,
+      validateResponses: 'strict',
+    });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should return responses that match the API schema', async () => {
+    await client.invoices.create({ amount: 10 });
+    const { id } = await client.invoices.create({ amount: 100, asset: 'usdt', network: 'bsc' });
+    await new InvoiceSimulator(server).pay(id, { amount: 50 });
+    await client.invoices.retrieve(id);
+    await client.invoices.list();
+
+    const address = await client.depositAddresses.create({ asset: 'btc', network: 'bitcoin' });
+    await server.createDeposit(address.id, { amount: '0.001', notify: false });
+    await client.depositAddresses.list();
+    await client.deposits.list();
+    await client.assets.list();
+  });
+});
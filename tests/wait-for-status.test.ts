@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import PayCoinPro from '../src/index.js';
+import {
+  InvoiceExpiredError,
+  InvoiceTerminalStatusError,
+  NotFoundError,
+  RequestAbortedError,
+  TimeoutError,
+  WaitTimeoutError,
+} from '../src/lib/errors.js';
+import { InvoiceSimulator, MockPayCoinProServer } from '../src/testing/index.js';
+
+describe('Invoices.waitForStatus', () => {
+  const server = new MockPayCoinProServer();
+  const sim = new InvoiceSimulator(server);
+  let client: PayCoinPro;
+
+  beforeAll(async () => {
+    await server.start();
+    client = new PayCoinPro({ apiKey: 'pk_test', baseURL: server.baseURL });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  const createInvoice = () =>
+    client.invoices.create({ amount: 100, asset: 'usdt', network: 'bsc' });
+
+  it('should resolve once the invoice is paid and report progress', async () => {
+    const { id } = await createInvoice();
+    const onProgress = vi.fn();
+
+    setTimeout(() => void sim.pay(id, { amount: 30 }), 20);
+    setTimeout(() => void sim.pay(id, { amount: 70 }), 60);
+
+    const invoice = await client.invoices.waitForStatus(id, { intervalMs: 5, onProgress });
+
+    expect(invoice.status).toBe('PAID');
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(onProgress.mock.calls[0][0]).toMatchObject({ status: 'PARTIAL', amountReceived: 30 });
+    expect(onProgress.mock.calls[0][1]).toMatchObject({ status: 'AWAITING', amountReceived: 0 });
+    expect(onProgress.mock.calls[1][0]).toMatchObject({ status: 'PAID', amountReceived: 100 });
+  });
+
+  it('should resolve immediately when already in a wanted status', async () => {
+    const { id } = await createInvoice();
+    await sim.pay(id, { amount: 30 });
+
+    const invoice = await client.invoices.waitForStatus(id, { until: ['PARTIAL'] });
+    expect(invoice.status).toBe('PARTIAL');
+  });
+
+  it('should reject with InvoiceExpiredError when the invoice expires', async () => {
+    const { id } = await createInvoice();
+    setTimeout(() => void sim.expire(id), 20);
+
+    const error = await client.invoices
+      .waitForStatus(id, { intervalMs: 5 })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(InvoiceExpiredError);
+    expect((error as InvoiceExpiredError).invoice.status).toBe('EXPIRED');
+  });
+
+  it('should reject with InvoiceTerminalStatusError when the invoice ends underpaid', async () => {
+    const { id } = await createInvoice();
+    await sim.pay(id, { amount: 30 });
+    setTimeout(() => void sim.expire(id), 20);
+
+    const error = await client.invoices
+      .waitForStatus(id, { intervalMs: 5 })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(InvoiceTerminalStatusError);
+    expect(error).not.toBeInstanceOf(InvoiceExpiredError);
+    expect(error).toMatchObject({ status: 'UNDERPAID', invoice: { id, status: 'UNDERPAID' } });
+  });
+
+  it('should reject when the invoice reaches a terminal status not in until', async () => {
+    const { id } = await createInvoice();
+    setTimeout(() => void sim.pay(id, { amount: 100 }), 20);
+
+    const error = await client.invoices
+      .waitForStatus(id, { until: ['OVERPAID'], intervalMs: 5 })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(InvoiceTerminalStatusError);
+    expect((error as InvoiceTerminalStatusError).status).toBe('PAID');
+  });
+
+  it('should reject with WaitTimeoutError after timeoutMs', async () => {
+    const { id } = await createInvoice();
+
+    const error = await client.invoices
+      .waitForStatus(id, { intervalMs: 5, timeoutMs: 40 })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(WaitTimeoutError);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as WaitTimeoutError).invoice.status).toBe('AWAITING');
+  });
+
+  it('should keep polling through a 503', async () => {
+    const { id } = await createInvoice();
+    let calls = 0;
+    const flaky = new PayCoinPro({
+      apiKey: 'pk_test',
+      baseURL: server.baseURL,
+      fetch: async (url, init) =>
+        ++calls === 2
+          ? Response.json({ error: 'Service unavailable' }, { status: 503 })
+          : fetch(url, init),
+    });
+    setTimeout(() => void sim.pay(id, { amount: 100 }), 20);
+
+    const invoice = await flaky.invoices.waitForStatus(id, { intervalMs: 5 });
+    expect(invoice.status).toBe('PAID');
+    expect(calls).toBeGreaterThan(2);
+  });
+
+  it('should reject errors that are not retryable', async () => {
+    await expect(client.invoices.waitForStatus('inv_missing')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should not let a hanging poll run past timeoutMs', async () => {
+    const { id } = await createInvoice();
+    let calls = 0;
+    const hanging = new PayCoinPro({
+      apiKey: 'pk_test',
+      baseURL: server.baseURL,
+      timeout: 30_000,
+      fetch: async (url, init) => {
+        if (++calls === 1) {
+          return fetch(url, init);
+        }
+        return new Promise<Response>((_resolve, reject) =>
+          init?.signal?.addEventListener('abort', () =>
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+          )
+        );
+      },
+    });
+    const startedAt = Date.now();
+
+    const error = await hanging.invoices
+      .waitForStatus(id, { intervalMs: 5, timeoutMs: 100 })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(WaitTimeoutError);
+    expect((error as WaitTimeoutError).invoice.status).toBe('AWAITING');
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('should back off while nothing changes', async () => {
+    const { id } = await createInvoice();
+    const retrieve = vi.spyOn(client.invoices, 'retrieve');
+
+    await client.invoices
+      .waitForStatus(id, { intervalMs: 10, maxIntervalMs: 40, timeoutMs: 150 })
+      .catch(() => undefined);
+
+    // Fixed 10ms polling would take ~15 requests; backoff (10, 15, 22.5, 33.75, 40...) far fewer
+    expect(retrieve.mock.calls.length).toBeLessThanOrEqual(8);
+    retrieve.mockRestore();
+  });
+
+  it('should stop when the signal aborts', async () => {
+    const { id } = await createInvoice();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(
+      client.invoices.waitForStatus(id, { intervalMs: 5, signal: controller.signal })
+    ).rejects.toThrow(RequestAbortedError);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Webhooks, WebhookDuplicateError } from '../src/resources/webhooks.js';
+import { FileDedupStore, MemoryDedupStore, webhookDedupKey } from '../src/lib/webhook-dedup.js';
+import type { InvoiceWebhookPayload } from '../src/types/index.js';
+
+const secret = 'whsec_test';
+
+const invoicePayload: InvoiceWebhookPayload = {
+  event: 'invoice',
+  invoiceId: 'inv_123',
+  orderId: 'ORD-1',
+  status: 'PAID',
+  depositAddress: '0xabc',
+  senderAddress: null,
+  txHash: '0xhash',
+  amountReceived: 100,
+  amountExpected: 100,
+  cryptoSymbol: 'USDT',
+  network: 'BSC',
+  networkName: 'BNB Smart Chain',
+  amountFiat: 99.99,
+  fiatCurrency: 'USD',
+  timestamp: '2025-01-01T00:00:00.000Z',
+};
+
+describe('webhookDedupKey', () => {
+  it('should key on event, id, status and txHash', () => {
+    expect(webhookDedupKey(invoicePayload)).toBe('invoice:inv_123:PAID:0xhash');
+    expect(webhookDedupKey({ ...invoicePayload, status: 'OVERPAID' })).not.toBe(
+      webhookDedupKey(invoicePayload)
+    );
+  });
+});
+
+describe('MemoryDedupStore', () => {
+  it('should report keys seen before', () => {
+    const store = new MemoryDedupStore();
+    expect(store.seen('a')).toBe(false);
+    expect(store.seen('a')).toBe(true);
+    store.delete('a');
+    expect(store.seen('a')).toBe(false);
+  });
+
+  it('should evict the least recently seen key', () => {
+    const store = new MemoryDedupStore({ maxSize: 2 });
+    store.seen('a');
+    store.seen('b');
+    store.seen('a');
+    store.seen('c');
+
+    expect(store.size).toBe(2);
+    expect(store.seen('a')).toBe(true);
+    expect(store.seen('b')).toBe(false);
+  });
+});
+
+describe('FileDedupStore', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('should persist seen keys across instances', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'paycoinpro-dedup-'));
+    const path = join(dir, 'seen.json');
+
+    const store = new FileDedupStore({ path });
+    expect(await Promise.all([store.seen('a'), store.seen('b'), store.seen('a')])).toEqual([
+      false,
+      false,
+      true,
+    ]);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual(['b', 'a']);
+    expect(await new FileDedupStore({ path }).seen('a')).toBe(true);
+  });
+
+  it('should name the file when it is corrupt', () => {
+    dir = mkdtempSync(join(tmpdir(), 'paycoinpro-dedup-'));
+    const path = join(dir, 'seen.json');
+    writeFileSync(path, '["a", "b');
+
+    expect(() => new FileDedupStore({ path })).toThrow(`Cannot read webhook dedup store ${path}`);
+  });
+});
+
+describe('Webhooks.verifyOnce', () => {
+  const webhooks = new Webhooks();
+  const rawBody = JSON.stringify(invoicePayload);
+
+  it('should reject a replayed delivery by default', async () => {
+    const store = new MemoryDedupStore();
+    const signature = webhooks.sign(invoicePayload, secret);
+
+    const first = await webhooks.verifyOnce(rawBody, signature, secret, { store });
+    expect(first.duplicate).toBe(false);
+    expect(first.dedupKey).toBe('invoice:inv_123:PAID:0xhash');
+
+    await expect(webhooks.verifyOnce(rawBody, signature, secret, { store })).rejects.toThrow(
+      WebhookDuplicateError
+    );
+  });
+
+  it('should flag a redelivery with a new signature', async () => {
+    const store = new MemoryDedupStore();
+    const now = Math.floor(Date.now() / 1000);
+
+    await webhooks.verifyOnce(rawBody, webhooks.sign(invoicePayload, secret, now - 60), secret, {
+      store,
+    });
+    const retry = await webhooks.verifyOnce(
+      rawBody,
+      webhooks.sign(invoicePayload, secret),
+      secret,
+      {
+        store,
+        onDuplicate: 'flag',
+      }
+    );
+
+    expect(retry.duplicate).toBe(true);
+    expect(retry.event).toEqual(invoicePayload);
+  });
+
+  it('should not record deliveries that fail verification', async () => {
+    const store = new MemoryDedupStore();
+    const signature = webhooks.sign(invoicePayload, 'wrong_secret');
+
+    await expect(webhooks.verifyOnce(rawBody, signature, secret, { store })).rejects.toThrow(
+      'Invalid webhook signature'
+    );
+    expect(store.size).toBe(0);
+  });
+});
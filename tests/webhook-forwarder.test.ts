@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { RequestAbortedError, ValidationError } from '../src/lib/errors.js';
+import { webhookEventSchema } from '../src/lib/schemas.js';
+import { validate } from '../src/lib/validation.js';
+import { nodeWebhookHandler } from '../src/adapters/node.js';
+import { Webhooks } from '../src/resources/webhooks.js';
+import {
+  WEBHOOK_EVENT_STATUSES,
+  WebhookForwarder,
+  exampleWebhookEvent,
+  exampleWebhookEvents,
+  parseWebhookPayloads,
+} from '../src/testing/index.js';
+import { run } from '../src/cli/run.js';
+
+const secret = 'whsec_forward';
+
+describe('example webhook events', () => {
+  it('should cover every status with payloads that match the schema', () => {
+    const events = exampleWebhookEvents();
+
+    expect(events.map((event) => event.status)).toEqual(WEBHOOK_EVENT_STATUSES);
+    for (const event of events) {
+      expect(validate(webhookEventSchema, event)).toEqual([]);
+    }
+    expect(events.at(-1)).toMatchObject({ event: 'deposit', externalUserId: 'user_123' });
+  });
+
+  it('should fit amounts to the status and apply overrides', () => {
+    const partial = exampleWebhookEvent('PARTIAL', { invoiceId: 'inv_1' });
+    expect(partial).toMatchObject({ event: 'invoice', invoiceId: 'inv_1', amountReceived: 40 });
+    expect(partial.amountReceived).toBeLessThan(partial.amountExpected ?? 0);
+    expect(exampleWebhookEvent('OVERPAID').amountReceived).toBeGreaterThan(100);
+    expect(() => exampleWebhookEvent('PENDING' as 'PAID')).toThrow(/Unknown webhook status/);
+  });
+});
+
+describe('parseWebhookPayloads', () => {
+  it('should accept a payload or an array of payloads', () => {
+    const paid = JSON.stringify(exampleWebhookEvent('PAID'));
+    expect(parseWebhookPayloads(paid)).toEqual([paid]);
+
+    const events = exampleWebhookEvents();
+    const split = parseWebhookPayloads(JSON.stringify(events, null, 2));
+    expect(split.map((text) => JSON.parse(text))).toEqual(events);
+  });
+
+  it('should keep the exact text of each payload', () => {
+    const exact = '{"event":"deposit","status":"SETTLED","amount":1.123456789012345678}';
+    expect(parseWebhookPayloads(`[ ${exact} ,\n{"event":"invoice","x":[1,"]"]}]`)).toEqual([
+      exact,
+      '{"event":"invoice","x":[1,"]"]}',
+    ]);
+  });
+
+  it('should reject bodies that are not webhook payloads', () => {
+    const invalid = [exampleWebhookEvent('PAID'), { id: 'inv_1', status: 'PAID' }];
+
+    const error = (() => {
+      try {
+        parseWebhookPayloads(JSON.stringify(invalid));
+      } catch (error) {
+        return error as ValidationError;
+      }
+    })();
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error?.issues).toEqual([{ path: '/1/event', message: 'required property is missing' }]);
+  });
+});
+
+describe('WebhookForwarder', () => {
+  const handler = vi.fn();
+  let receiver: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    receiver = http.createServer(nodeWebhookHandler({ secret, handler }));
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/webhooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  beforeEach(() => {
+    handler.mockReset();
+  });
+
+  it('should re-sign stored payloads with a fresh timestamp', async () => {
+    const stored = { ...exampleWebhookEvent('PAID'), timestamp: '2024-01-15T12:30:00.000Z' };
+    const delivery = await new WebhookForwarder({ url, secret }).send(stored);
+
+    expect(delivery.status).toBe(200);
+    expect(delivery.responseBody).toBe('{"received":true}');
+    const signedAt = Number(/^t=(\d+),/.exec(delivery.signature)?.[1]);
+    expect(Math.abs(signedAt - Date.now() / 1000)).toBeLessThan(5);
+    expect(handler).toHaveBeenCalledWith(stored, expect.anything());
+  });
+
+  it('should send stored text byte for byte', async () => {
+    const fetch = vi.fn().mockImplementation(async () => Response.json({ received: true }));
+    const [stored] = parseWebhookPayloads(
+      '[{"event":"invoice","status":"PAID","amountReceived":1.123456789012345678}]'
+    );
+
+    const delivery = await new WebhookForwarder({ url, secret, fetch }).send(stored);
+
+    const [, init] = fetch.mock.calls[0];
+    expect(init.body).toBe(stored);
+    expect(delivery.body).toBe(stored);
+    expect(delivery.payload).toMatchObject({ event: 'invoice', status: 'PAID' });
+    expect(() => new Webhooks().verify(stored, delivery.signature, secret)).not.toThrow();
+  });
+
+  it('should report rejected deliveries without throwing', async () => {
+    const delivery = await new WebhookForwarder({ url, secret: 'whsec_wrong' }).send(
+      exampleWebhookEvent('PAID')
+    );
+
+    expect(delivery.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should send a sequence in order with delays', async () => {
+    const onDelivery = vi.fn();
+    const startedAt = Date.now();
+    const deliveries = await new WebhookForwarder({ url, secret }).sendSequence(
+      [exampleWebhookEvent('PAID'), exampleWebhookEvent('PARTIAL')],
+      { delayMs: 50, onDelivery }
+    );
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    expect(deliveries.map((delivery) => delivery.payload.status)).toEqual(['PAID', 'PARTIAL']);
+    expect(handler.mock.calls.map(([event]) => event.status)).toEqual(['PAID', 'PARTIAL']);
+    expect(onDelivery).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop a sequence when aborted', async () => {
+    const controller = new AbortController();
+    const sequence = new WebhookForwarder({ url, secret }).sendSequence(
+      [exampleWebhookEvent('PAID'), exampleWebhookEvent('PARTIAL')],
+      { delayMs: 10_000, signal: controller.signal, onDelivery: () => controller.abort() }
+    );
+
+    await expect(sequence).rejects.toThrow(RequestAbortedError);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop a sequence without delays when aborted', async () => {
+    const controller = new AbortController();
+    const forwarder = new WebhookForwarder({ url, secret });
+    const events = [exampleWebhookEvent('PAID'), exampleWebhookEvent('PARTIAL')];
+
+    const sequence = forwarder.sendSequence(events, {
+      signal: controller.signal,
+      onDelivery: () => controller.abort(),
+    });
+    await expect(sequence).rejects.toThrow(RequestAbortedError);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await expect(forwarder.sendSequence(events, { signal: controller.signal })).rejects.toThrow(
+      RequestAbortedError
+    );
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should explain unreachable handlers', async () => {
+    const fetch = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    await expect(
+      new WebhookForwarder({ url, secret, fetch }).send(exampleWebhookEvent('PAID'))
+    ).rejects.toThrow(`Could not deliver webhook to ${url}: fetch failed`);
+  });
+
+  describe('CLI', () => {
+    const cli = async (argv: string[], files: Record<string, string> = {}) => {
+      const stdout: string[] = [];
+      const stderr: string[] = [];
+      const code = await run(argv, {
+        stdout: (text) => stdout.push(text),
+        stderr: (text) => stderr.push(text),
+        env: {},
+        readFile: (path) => {
+          if (!(path in files)) {
+            throw new Error(`ENOENT: no such file, open '${path}'`);
+          }
+          return files[path];
+        },
+      });
+      return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+    };
+
+    it('should print examples that replay unchanged', async () => {
+      const examples = await cli([
+        'webhooks',
+        'examples',
+        '--status',
+        'paid',
+        '--status',
+        'CONFIRMED',
+      ]);
+      expect(examples.stdout).toMatch(/^invoice\s+PAID\s+clx1abc123def456\s+100 USDT$/m);
+      expect(examples.stdout).toMatch(/^deposit\s+CONFIRMED\s+user_123\s+100\.5 USDT$/m);
+
+      const json = await cli(['webhooks', 'examples', '--json']);
+      const replayed = await cli(
+        ['webhooks', 'replay', '--url', url, '--secret', secret, '--file', 'events.json'],
+        { 'events.json': json.stdout }
+      );
+
+      expect(replayed.code).toBe(0);
+      expect(replayed.stdout.split('\n')).toHaveLength(7);
+      expect(handler.mock.calls.map(([event]) => event)).toEqual(JSON.parse(json.stdout));
+    });
+
+    it('should fire a sequence of example events for one invoice', async () => {
+      const { code, stdout } = await cli([
+        'webhooks',
+        'sequence',
+        '--url',
+        url,
+        '--secret',
+        secret,
+        '--status',
+        'PAID',
+        '--status',
+        'PARTIAL',
+        '--invoice-id',
+        'inv_7',
+        '--delay',
+        '10',
+      ]);
+
+      expect(code).toBe(0);
+      expect(stdout).toMatch(/^invoice\s+PAID\s+200\s+\d+ms\s+\{"received":true\}$/m);
+      expect(handler.mock.calls.map(([event]) => [event.invoiceId, event.status])).toEqual([
+        ['inv_7', 'PAID'],
+        ['inv_7', 'PARTIAL'],
+      ]);
+    });
+
+    it('should exit with 1 when the handler rejects a delivery', async () => {
+      const { code, stdout } = await cli([
+        'webhooks',
+        'sequence',
+        '--url',
+        url,
+        '--secret',
+        'whsec_wrong',
+        '--status',
+        'EXPIRED',
+      ]);
+
+      expect(code).toBe(1);
+      expect(stdout).toMatch(/^invoice\s+EXPIRED\s+401\s/m);
+    });
+
+    it('should reject invalid files and statuses as usage errors', async () => {
+      const badFile = await cli(
+        ['webhooks', 'replay', '--url', url, '--secret', secret, '--file', 'invoice.json'],
+        { 'invoice.json': '{"id":"inv_1","status":"PAID"}' }
+      );
+      expect(badFile.code).toBe(2);
+      expect(badFile.stderr).toContain('invoice.json: Invalid webhook payload:\n/event:');
+
+      const badStatus = await cli([
+        'webhooks',
+        'sequence',
+        '--url',
+        url,
+        '--secret',
+        secret,
+        '--status',
+        'DONE',
+      ]);
+      expect(badStatus.code).toBe(2);
+      expect(badStatus.stderr).toContain('--status must be one of PARTIAL, PAID, OVERPAID');
+    });
+  });
+});
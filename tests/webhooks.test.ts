@@ -0,0 +1,175 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { Webhooks, WebhookVerificationError } from '../src/resources/webhooks.js';
+import type { WebhookEvent } from '../src/resources/webhooks.js';
+import type { DepositWebhookPayload, InvoiceWebhookPayload } from '../src/types/index.js';
+
+const secret = 'whsec_test';
+
+const invoicePayload: InvoiceWebhookPayload = {
+  event: 'invoice',
+  invoiceId: 'inv_123',
+  orderId: 'ORD-1',
+  status: 'PAID',
+  depositAddress: '0xabc',
+  senderAddress: null,
+  txHash: '0xhash',
+  amountReceived: 100,
+  amountExpected: 100,
+  cryptoSymbol: 'USDT',
+  network: 'BSC',
+  networkName: 'BNB Smart Chain',
+  amountFiat: 99.99,
+  fiatCurrency: 'USD',
+  timestamp: '2025-01-01T00:00:00.000Z',
+};
+
+const depositPayload: DepositWebhookPayload = {
+  event: 'deposit',
+  status: 'CONFIRMED',
+  depositAddress: '0xabc',
+  externalUserId: 'user_123',
+  senderAddress: null,
+  txHash: '0xdeposit',
+  amount: 50,
+  amountFiat: 50,
+  cryptoSymbol: 'USDT',
+  network: 'BSC',
+  networkName: 'BNB Smart Chain',
+  timestamp: '2025-01-01T00:00:00.000Z',
+};
+
+const signed = (webhooks: Webhooks, payload: object) => ({
+  rawBody: JSON.stringify(payload),
+  signature: webhooks.sign(payload, secret),
+});
+
+describe('Webhooks', () => {
+  it('should verify a signed payload', () => {
+    const webhooks = new Webhooks();
+    const { rawBody, signature } = signed(webhooks, invoicePayload);
+
+    expect(webhooks.verify(rawBody, signature, secret)).toEqual(invoicePayload);
+  });
+
+  it('should reject an invalid signature', () => {
+    const webhooks = new Webhooks();
+    const { rawBody, signature } = signed(webhooks, invoicePayload);
+
+    expect(() => webhooks.verify(rawBody, signature, 'wrong_secret')).toThrow(
+      WebhookVerificationError
+    );
+  });
+
+  it('should reject a stale timestamp', () => {
+    const webhooks = new Webhooks();
+    const signature = webhooks.sign(invoicePayload, secret, Math.floor(Date.now() / 1000) - 600);
+
+    expect(() => webhooks.verify(JSON.stringify(invoicePayload), signature, secret)).toThrow(
+      'too old'
+    );
+  });
+
+  it('should narrow the event union on event', () => {
+    const webhooks = new Webhooks();
+    const { rawBody, signature } = signed(webhooks, depositPayload);
+    const event = webhooks.verify(rawBody, signature, secret);
+
+    expectTypeOf(event).toEqualTypeOf<WebhookEvent>();
+    if (event.event === 'deposit') {
+      expectTypeOf(event.externalUserId).toEqualTypeOf<string | null>();
+      expect(event.externalUserId).toBe('user_123');
+    } else {
+      expectTypeOf(event.invoiceId).toEqualTypeOf<string>();
+    }
+  });
+});
+
+describe('Webhook secret rotation', () => {
+  it('should accept any of several secrets and report which matched', () => {
+    const webhooks = new Webhooks();
+    const rawBody = JSON.stringify(invoicePayload);
+    const signature = webhooks.sign(invoicePayload, 'whsec_old');
+
+    const result = webhooks.verifyDetailed(rawBody, signature, ['whsec_new', 'whsec_old']);
+
+    expect(result.event).toEqual(invoicePayload);
+    expect(result.secretIndex).toBe(1);
+  });
+
+  it('should accept a header carrying several v1 signatures', () => {
+    const webhooks = new Webhooks();
+    const rawBody = JSON.stringify(invoicePayload);
+    const signature = webhooks.sign(invoicePayload, ['whsec_new', 'whsec_old']);
+
+    expect(signature.match(/v1=/g)).toHaveLength(2);
+    expect(webhooks.verifyDetailed(rawBody, signature, 'whsec_old').secretIndex).toBe(0);
+    expect(webhooks.verifyDetailed(rawBody, signature, ['whsec_new']).secretIndex).toBe(0);
+  });
+
+  it('should reject when no secret matches any signature', () => {
+    const webhooks = new Webhooks();
+    const rawBody = JSON.stringify(invoicePayload);
+    const signature = webhooks.sign(invoicePayload, ['whsec_a', 'whsec_b']);
+
+    expect(() => webhooks.verify(rawBody, signature, ['whsec_c', 'whsec_d'])).toThrow(
+      'Invalid webhook signature'
+    );
+  });
+
+  it('should reject an empty secret list', () => {
+    const webhooks = new Webhooks();
+    const { rawBody, signature } = signed(webhooks, invoicePayload);
+
+    expect(() => webhooks.verify(rawBody, signature, [])).toThrow('Missing webhook secret');
+  });
+});
+
+describe('WebhookRouter', () => {
+  it('should dispatch to handlers from most to least specific', async () => {
+    const webhooks = new Webhooks();
+    const calls: string[] = [];
+
+    const router = webhooks
+      .on('*', () => {
+        calls.push('*');
+      })
+      .on('invoice', () => {
+        calls.push('invoice');
+      })
+      .on('invoice.PAID', (event) => {
+        expectTypeOf(event.status).toEqualTypeOf<'PAID'>();
+        calls.push(`invoice.PAID:${event.invoiceId}`);
+      })
+      .on('invoice.EXPIRED', () => {
+        calls.push('invoice.EXPIRED');
+      })
+      .on('deposit', () => {
+        calls.push('deposit');
+      });
+
+    const { rawBody, signature } = signed(webhooks, invoicePayload);
+    const event = await router.handle(rawBody, signature, secret);
+
+    expect(event).toEqual(invoicePayload);
+    expect(calls).toEqual(['invoice.PAID:inv_123', 'invoice', '*']);
+  });
+
+  it('should not dispatch when verification fails', async () => {
+    const webhooks = new Webhooks();
+    const handler = vi.fn();
+    const router = webhooks.on('*', handler);
+    const { rawBody, signature } = signed(webhooks, depositPayload);
+
+    await expect(router.handle(rawBody, signature, 'wrong_secret')).rejects.toThrow(
+      WebhookVerificationError
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should report how many handlers ran', async () => {
+    const router = new Webhooks().on('deposit.CONFIRMED', vi.fn());
+
+    expect(await router.dispatch(depositPayload)).toBe(1);
+    expect(await router.dispatch(invoicePayload)).toBe(0);
+  });
+});